@@ -2,12 +2,18 @@
 -- Deletes all data from the specified tables in your D1 database.
 -- WARNING: This action is irreversible.
 
-DELETE FROM result_items;
+DELETE FROM aggregation_images;
 DELETE FROM aggregated_results;
+DELETE FROM images;
 DELETE FROM user_preferences;
 DELETE FROM search_history;
+DELETE FROM favorites;
+DELETE FROM collection_items;
+DELETE FROM collections;
+DELETE FROM engine_usage;
+DELETE FROM devices;
 
--- The following line will delete your search engine seed data (Google, Brave, Serper).
+-- The following line will delete your search engine seed data (Google, Brave, Serper, Zenserp).
 -- If you want to keep this seed data, leave this line commented out or remove it.
 -- DELETE FROM search_engines;
 
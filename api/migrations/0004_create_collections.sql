@@ -0,0 +1,22 @@
+-- Named, ordered wallpaper collections per user
+CREATE TABLE IF NOT EXISTS collections (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  cover_item_id TEXT,
+  created_at DATETIME NOT NULL,
+  updated_at DATETIME NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS collection_items (
+  id TEXT PRIMARY KEY,
+  collection_id TEXT NOT NULL,
+  url TEXT NOT NULL,
+  result TEXT NOT NULL,
+  position INTEGER NOT NULL,
+  added_at DATETIME NOT NULL,
+  FOREIGN KEY (collection_id) REFERENCES collections(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_collections_user ON collections(user_id, updated_at);
+CREATE INDEX IF NOT EXISTS idx_collection_items_order ON collection_items(collection_id, position);
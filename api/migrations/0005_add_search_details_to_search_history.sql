@@ -0,0 +1,8 @@
+-- Record request details alongside each search history entry
+ALTER TABLE search_history ADD COLUMN orientation TEXT;
+ALTER TABLE search_history ADD COLUMN tbs TEXT;
+ALTER TABLE search_history ADD COLUMN engine TEXT;
+ALTER TABLE search_history ADD COLUMN result_count INTEGER;
+ALTER TABLE search_history ADD COLUMN cache_hit BOOLEAN DEFAULT FALSE;
+
+CREATE INDEX IF NOT EXISTS idx_search_history_user ON search_history(user_id, timestamp);
@@ -0,0 +1,13 @@
+-- Outbound engine calls per engine, UTC day and user
+CREATE TABLE IF NOT EXISTS engine_usage (
+  engine TEXT NOT NULL,
+  day TEXT NOT NULL,
+  user_id TEXT NOT NULL,
+  request_count INTEGER NOT NULL DEFAULT 0,
+  last_used DATETIME,
+  PRIMARY KEY (engine, day, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_engine_usage_day ON engine_usage(day, engine);
+
+INSERT OR IGNORE INTO search_engines (id, name) VALUES ('zenserp', 'Zenserp');
@@ -0,0 +1,4 @@
+-- Ranking score for aggregated results; pagination orders by it (NULL for older aggregations)
+ALTER TABLE result_items ADD COLUMN score REAL;
+
+CREATE INDEX IF NOT EXISTS idx_result_items_agg_score ON result_items(agg_id, score DESC);
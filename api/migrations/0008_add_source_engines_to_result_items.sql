@@ -0,0 +1,2 @@
+-- Every engine that returned a result, as JSON [{ "engine": "google", "rank": 3 }, ...]
+ALTER TABLE result_items ADD COLUMN source_engines TEXT;
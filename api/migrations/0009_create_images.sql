@@ -0,0 +1,39 @@
+-- Global, content-addressed image store replacing per-search result_items rows.
+-- result_items ids were engine-local (e.g. brave_1), so searches overwrote each
+-- other's rows; cached aggregations are dropped and rebuilt on the next search.
+CREATE TABLE IF NOT EXISTS images (
+  id TEXT PRIMARY KEY,
+  canonical_url TEXT NOT NULL,
+  url TEXT NOT NULL,
+  title TEXT,
+  thumbnailUrl TEXT,
+  sourceUrl TEXT,
+  sourceDomain TEXT,
+  description TEXT,
+  width INTEGER,
+  height INTEGER,
+  fileSize INTEGER,
+  mimeType TEXT,
+  fileFormat TEXT,
+  created_at DATETIME NOT NULL,
+  updated_at DATETIME NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS aggregation_images (
+  agg_id TEXT NOT NULL,
+  image_id TEXT NOT NULL,
+  position INTEGER NOT NULL,
+  source_engine TEXT,
+  source_engines TEXT,
+  score REAL,
+  PRIMARY KEY (agg_id, image_id),
+  FOREIGN KEY (agg_id) REFERENCES aggregated_results(id) ON DELETE CASCADE,
+  FOREIGN KEY (image_id) REFERENCES images(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_aggregation_images_position ON aggregation_images(agg_id, position);
+CREATE INDEX IF NOT EXISTS idx_aggregation_images_image ON aggregation_images(image_id);
+
+DELETE FROM result_items;
+DELETE FROM aggregated_results;
+DROP TABLE IF EXISTS result_items;
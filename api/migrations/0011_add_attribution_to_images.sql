@@ -0,0 +1,4 @@
+-- License and author details, from the usage-rights filter or well-known hosts
+ALTER TABLE images ADD COLUMN license TEXT;
+ALTER TABLE images ADD COLUMN author TEXT;
+ALTER TABLE images ADD COLUMN authorUrl TEXT;
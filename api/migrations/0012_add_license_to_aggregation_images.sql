@@ -0,0 +1,12 @@
+-- Usage-rights filter label per aggregation; images.license now only holds
+-- licenses known from the image or its host
+ALTER TABLE aggregation_images ADD COLUMN license TEXT;
+
+-- Filter labels were saved on the shared images row and leaked into other
+-- searches; expire the aggregations that relied on them so they are rebuilt
+UPDATE aggregated_results SET expires_at = strftime('%Y-%m-%dT%H:%M:%fZ', 'now')
+  WHERE id IN (
+    SELECT ai.agg_id FROM aggregation_images ai JOIN images i ON i.id = ai.image_id
+    WHERE i.license IN ('Creative Commons', 'Commercial license')
+  );
+UPDATE images SET license = NULL WHERE license IN ('Creative Commons', 'Commercial license');
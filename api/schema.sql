@@ -10,11 +10,12 @@ CREATE TABLE IF NOT EXISTS aggregated_results (
   user_id TEXT
 );
 
-CREATE TABLE IF NOT EXISTS result_items (
+-- One row per image, shared by all searches; id = sha1 of the canonical URL
+CREATE TABLE IF NOT EXISTS images (
   id TEXT PRIMARY KEY,
-  agg_id TEXT NOT NULL,
+  canonical_url TEXT NOT NULL,
+  url TEXT NOT NULL,
   title TEXT,
-  url TEXT,
   thumbnailUrl TEXT,
   sourceUrl TEXT,
   sourceDomain TEXT,
@@ -24,11 +25,29 @@ CREATE TABLE IF NOT EXISTS result_items (
   fileSize INTEGER,
   mimeType TEXT,
   fileFormat TEXT,
+  license TEXT,
+  author TEXT,
+  authorUrl TEXT,
+  created_at DATETIME NOT NULL,
+  updated_at DATETIME NOT NULL
+);
+
+-- Images of an aggregation in rank order
+CREATE TABLE IF NOT EXISTS aggregation_images (
+  agg_id TEXT NOT NULL,
+  image_id TEXT NOT NULL,
+  position INTEGER NOT NULL,
   source_engine TEXT,
-  FOREIGN KEY (agg_id) REFERENCES aggregated_results(id) ON DELETE CASCADE
+  source_engines TEXT,
+  score REAL,
+  license TEXT,
+  PRIMARY KEY (agg_id, image_id),
+  FOREIGN KEY (agg_id) REFERENCES aggregated_results(id) ON DELETE CASCADE,
+  FOREIGN KEY (image_id) REFERENCES images(id)
 );
 
-CREATE INDEX IF NOT EXISTS idx_agg_id ON result_items(agg_id);
+CREATE INDEX IF NOT EXISTS idx_aggregation_images_position ON aggregation_images(agg_id, position);
+CREATE INDEX IF NOT EXISTS idx_aggregation_images_image ON aggregation_images(image_id);
 CREATE INDEX IF NOT EXISTS idx_expires_at ON aggregated_results(expires_at);
 CREATE INDEX IF NOT EXISTS idx_user_query ON aggregated_results(user_id, query);
 
@@ -50,10 +69,74 @@ CREATE TABLE IF NOT EXISTS search_engines (
 INSERT OR IGNORE INTO search_engines (id, name) VALUES ('google', 'Google');
 INSERT OR IGNORE INTO search_engines (id, name) VALUES ('brave', 'Brave');
 INSERT OR IGNORE INTO search_engines (id, name) VALUES ('serper', 'Serper');
+INSERT OR IGNORE INTO search_engines (id, name) VALUES ('zenserp', 'Zenserp');
+
+CREATE TABLE IF NOT EXISTS engine_usage (
+  engine TEXT NOT NULL,
+  day TEXT NOT NULL,
+  user_id TEXT NOT NULL,
+  request_count INTEGER NOT NULL DEFAULT 0,
+  last_used DATETIME,
+  PRIMARY KEY (engine, day, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_engine_usage_day ON engine_usage(day, engine);
 
 CREATE TABLE IF NOT EXISTS search_history (
   id TEXT PRIMARY KEY,
   user_id TEXT NOT NULL,
   query TEXT NOT NULL,
-  timestamp DATETIME NOT NULL
-); 
\ No newline at end of file
+  timestamp DATETIME NOT NULL,
+  orientation TEXT,
+  tbs TEXT,
+  engine TEXT,
+  result_count INTEGER,
+  cache_hit BOOLEAN DEFAULT FALSE
+);
+
+CREATE INDEX IF NOT EXISTS idx_search_history_user ON search_history(user_id, timestamp);
+CREATE TABLE IF NOT EXISTS favorites (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  url TEXT NOT NULL,
+  query TEXT,
+  result TEXT NOT NULL,
+  created_at DATETIME NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_favorites_user ON favorites(user_id, created_at);
+
+CREATE TABLE IF NOT EXISTS collections (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  cover_item_id TEXT,
+  created_at DATETIME NOT NULL,
+  updated_at DATETIME NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS collection_items (
+  id TEXT PRIMARY KEY,
+  collection_id TEXT NOT NULL,
+  url TEXT NOT NULL,
+  result TEXT NOT NULL,
+  position INTEGER NOT NULL,
+  added_at DATETIME NOT NULL,
+  FOREIGN KEY (collection_id) REFERENCES collections(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_collections_user ON collections(user_id, updated_at);
+CREATE INDEX IF NOT EXISTS idx_collection_items_order ON collection_items(collection_id, position);
+
+CREATE TABLE IF NOT EXISTS devices (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  width INTEGER NOT NULL,
+  height INTEGER NOT NULL,
+  orientation TEXT NOT NULL,
+  created_at DATETIME NOT NULL,
+  updated_at DATETIME NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_devices_user ON devices(user_id);
@@ -7,6 +7,8 @@ export const SEARCH_ENGINE_CONFIG = {
     BRAVE: 'brave',
     MOCK: 'mock'
   } as const,
+  // Engines aggregated search fans out to; the others only serve `engine=` requests
+  AGGREGATED_ENGINES: ['google', 'brave', 'serper'] as const,
   ENGINE_SELECTION: {
     USE_OPTIMAL_SELECTION: false,  // If true, automatically selects best available engine
     FORCE_ENGINE: 'google' as const, // Force this specific engine (when USE_OPTIMAL_SELECTION is false)
@@ -20,6 +22,62 @@ export const SEARCH_ENGINE_CONFIG = {
     BRAVE: false,   // Brave uses native search operators instead of TBS
     MOCK: false     // Mock engine doesn't need TBS support
   } as const,
+  BUDGETS: {
+    // Maximum outbound calls per engine, summed over all users (null = unlimited).
+    // Engines over budget are skipped by aggregated search instead of overspending.
+    GOOGLE: { DAILY: 100, MONTHLY: null },   // Custom Search JSON API free tier
+    BRAVE: { DAILY: null, MONTHLY: 2000 },   // Brave Search API free plan
+    SERPER: { DAILY: null, MONTHLY: null },
+    ZENSERP: { DAILY: null, MONTHLY: null }
+  } as { readonly [engine: string]: { readonly DAILY: number | null; readonly MONTHLY: number | null } },
+  FANOUT: {
+    ENGINE_TIMEOUT_MS: 8000,    // Per-engine limit (each Google page gets the same limit)
+    OVERALL_DEADLINE_MS: 10000  // Aggregated search returns whatever has arrived by then
+  } as const,
+  RANKING: {
+    RRF_K: 60,                      // Reciprocal rank fusion constant (higher = flatter)
+    UNKNOWN_DIMENSIONS_SCORE: 0.5,  // Neutral score for results without width/height
+    WEIGHTS: {
+      RRF: 1,           // Per-engine rank positions
+      RESOLUTION: 0.5,  // Pixel count relative to 4K
+      ASPECT_FIT: 0.3,  // Fit for the requested orientation
+      AGREEMENT: 0.5    // Found by several engines
+    }
+  } as const,
+  PROBE: {
+    ENABLED: true,        // Read real dimensions for results that arrive without them (Brave, Zenserp)
+    MAX_IMAGES: 30,       // Images probed per aggregated search (each probe is a Workers subrequest)
+    CONCURRENCY: 8,       // Parallel probe requests
+    MAX_BYTES: 65536,     // Range request size; enough to get past most EXIF blocks
+    TIMEOUT_MS: 3000,     // Per-image limit
+    DEADLINE_MS: 5000     // Probing stops here and ranking uses what is known
+  } as const,
+  FETCH_GUARD: {
+    // Applies to every server-side fetch of a result URL (proxy, dimension probing)
+    MAX_REDIRECTS: 3,          // Each hop is checked again before it is followed
+    PER_HOST_CONCURRENCY: 4,   // Parallel requests to one host from this isolate
+    HOST_WAIT_MS: 5000,        // How long a request waits for a free slot before giving up
+    BODY_TIMEOUT_MS: 30000     // Until the body has been read; the host slot is freed after it
+  } as const,
+  PROXY: {
+    USER_AGENT: 'Mozilla/5.0 (compatible; Galactic-Parallax-API/1.0)', // Some hosts refuse requests without a browser-like agent
+    MAX_BYTES: 20 * 1024 * 1024, // Larger images are refused (or cut off when the size isn't announced)
+    TIMEOUT_MS: 10000,           // Until the upstream response headers arrive
+    CACHE_TTL_SECONDS: 86400     // Edge cache and browser max-age for proxied images
+  } as const,
+  SIGNED_URLS: {
+    TTL_SECONDS: 86400,   // Proxy and download links in search results stay valid this long
+    ROUND_SECONDS: 3600   // Expiry is rounded up to this, keeping URLs stable for browser caches
+  } as const,
+  EXPORT: {
+    MAX_IMAGES: 50,          // Per ZIP export; each image is one Workers subrequest
+    LINK_TTL_SECONDS: 3600   // Signed export links are meant to be opened right away
+  } as const,
+  RECENCY: {
+    // Searches with `since` want new images, so their response cache, raw engine
+    // caches and aggregations expire after this instead of a week
+    CACHE_TTL_SECONDS: 3600
+  } as const,
   DEBUG: {
     ENABLED: true,           // Enable/disable debug logging
     LOG_REQUESTS: true,      // Log incoming search requests
@@ -1,16 +1,26 @@
-import { Hono } from 'hono';
+import { Hono, MiddlewareHandler } from 'hono';
 import { cors } from 'hono/cors';
 import { jwtVerify, createRemoteJWKSet } from 'jose';
 import { search } from './routes/search';
+import { favorites } from './routes/favorites';
+import { collections } from './routes/collections';
+import { preferences } from './routes/preferences';
+import { devices } from './routes/devices';
+import { images } from './routes/images';
+import { exportRoutes } from './routes/exports';
 import { Bindings, JWTPayload } from './types';
 import { AggregatedResultsDurableObject } from './services/aggregatedResultsDurableObject';
+import { importSigningKey, verifySignedUrl } from './services/urlSigning';
 
-const app = new Hono<{ 
+type AppEnv = {
   Bindings: Bindings;
   Variables: {
     jwtPayload: JWTPayload;
+    signedUserId: string;
   };
-}>();
+};
+
+const app = new Hono<AppEnv>();
 
 // Environment validation function
 function validateEnvironment(env: Bindings): { isValid: boolean; errors: string[]; warnings: string[] } {
@@ -46,6 +56,10 @@ function validateEnvironment(env: Bindings): { isValid: boolean; errors: string[
     warnings.push('No external search engines configured - only mock search will be available');
   }
   
+  if (!env.URL_SIGNING_SECRET) {
+    warnings.push('URL_SIGNING_SECRET is not configured - search results will not include proxy links');
+  }
+  
   // Validate Auth0 domain format
   if (env.AUTH0_DOMAIN && !env.AUTH0_DOMAIN.includes('.auth0.com')) {
     errors.push('AUTH0_DOMAIN must be a valid Auth0 domain (e.g., your-tenant.auth0.com)');
@@ -88,7 +102,7 @@ app.use('*', async (c, next) => {
 app.use('*', cors({
   origin: ['http://localhost:5173', 'https://galactic-parallax.netlify.app', 'http://127.0.0.1:5173', 'https://parallax.neontowel.dev'],
   allowHeaders: ['Content-Type', 'Authorization'],
-  allowMethods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
+  allowMethods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
 }));
 
 // Handle OPTIONS requests before JWT middleware
@@ -97,7 +111,7 @@ app.options('*', (c) => {
 });
 
 // JWT middleware for protected routes with enhanced error handling
-app.use('/api/search/*', async (c, next) => {
+const jwtAuth: MiddlewareHandler<AppEnv> = async (c, next) => {
   try {
     // Get the Authorization header
     const authHeader = c.req.header('Authorization');
@@ -150,10 +164,49 @@ app.use('/api/search/*', async (c, next) => {
       details: error instanceof Error ? error.message : 'Unknown error'
     }, 401);
   }
-});
+};
+
+// Signed-link middleware for endpoints opened without a bearer token (<img> tags, downloads)
+const signedUrlAuth: MiddlewareHandler<AppEnv> = async (c, next) => {
+  if (!c.env.URL_SIGNING_SECRET) {
+    return c.json({
+      success: false,
+      error: 'Server configuration error',
+      message: 'Signed links are not configured on this server.'
+    }, 503);
+  }
+
+  const key = await importSigningKey(c.env.URL_SIGNING_SECRET);
+  const check = await verifySignedUrl(new URL(c.req.url), key);
+  if (!check.ok) {
+    console.warn('Signed URL rejected:', check.error, c.req.path);
+    return c.json({
+      success: false,
+      error: 'Unauthorized',
+      message: check.error
+    }, 401);
+  }
+
+  c.set('signedUserId', check.userId);
+  await next();
+};
+
+app.use('/api/search/*', jwtAuth);
+app.use('/api/favorites/*', jwtAuth);
+app.use('/api/collections/*', jwtAuth);
+app.use('/api/preferences/*', jwtAuth);
+app.use('/api/devices/*', jwtAuth);
+app.use('/api/exports/*', jwtAuth);
+app.use('/api/images/*', signedUrlAuth);
 
 // Mount search routes - all search endpoints require authentication
 app.route('/api/search', search);
+app.route('/api/favorites', favorites);
+app.route('/api/collections', collections);
+app.route('/api/preferences', preferences);
+app.route('/api/devices', devices);
+app.route('/api/exports', exportRoutes);
+app.route('/api/images', images);
 
 // Public routes
 app.get('/', (c) => {
@@ -230,7 +283,18 @@ app.notFound((c) => {
       'GET /api/health',
       'GET /api/search/images (requires auth)',
       'GET /api/search/suggestions (requires auth)',
-      'GET /api/search/health (requires auth)'
+      'GET /api/search/health (requires auth)',
+      'GET|POST /api/favorites (requires auth)',
+      'GET|DELETE /api/favorites/:id (requires auth)',
+      'GET|POST /api/collections (requires auth)',
+      'GET|PATCH|DELETE /api/collections/:id (requires auth)',
+      'GET|PUT|PATCH /api/preferences (requires auth)',
+      'GET|POST /api/devices (requires auth)',
+      'GET|PATCH|DELETE /api/devices/:id (requires auth)',
+      'POST /api/exports (requires auth)',
+      'GET /api/images/proxy?u=<url> (requires signed link)',
+      'GET /api/images/download/:imageId (requires signed link)',
+      'GET /api/images/export (requires signed link)'
     ]
   }, 404);
 });
@@ -0,0 +1,188 @@
+import { Hono } from 'hono';
+import { CollectionsService } from '../services/collectionsService';
+import { isValidResultSnapshot } from '../services/favoritesService';
+import { Bindings, JWTPayload } from '../types';
+import { debugLog } from '../services/queryUtils';
+
+const MAX_COLLECTION_NAME_LENGTH = 100;
+
+const collections = new Hono<{
+  Bindings: Bindings & { DB: any };
+  Variables: {
+    jwtPayload: JWTPayload;
+  };
+}>();
+
+const getCollectionsService = (db: any) => {
+  return new CollectionsService(db);
+};
+
+function validateName(name: any): string | null {
+  if (typeof name !== 'string' || name.trim().length === 0) {
+    return 'Collection name is required';
+  }
+  if (name.trim().length > MAX_COLLECTION_NAME_LENGTH) {
+    return `Collection name too long (max ${MAX_COLLECTION_NAME_LENGTH} characters)`;
+  }
+  return null;
+}
+
+function logException(label: string, error: unknown) {
+  debugLog('LOG_REQUESTS', `💥 [${label}]`, {
+    error: error instanceof Error ? error.message : 'Unknown error'
+  });
+}
+
+// List collections with item counts and cover images
+collections.get('/', async (c) => {
+  try {
+    const payload = c.get('jwtPayload');
+    const items = await getCollectionsService(c.env.DB).listCollections(payload.sub);
+    return c.json({ success: true, data: items });
+  } catch (error) {
+    logException('COLLECTIONS LIST EXCEPTION', error);
+    return c.json({ success: false, error: 'Failed to fetch collections' }, 500);
+  }
+});
+
+// Create a collection. Body: { name: string }
+collections.post('/', async (c) => {
+  try {
+    const payload = c.get('jwtPayload');
+    const body = await c.req.json().catch(() => null);
+    const nameError = validateName(body?.name);
+    if (nameError) {
+      return c.json({ success: false, error: nameError }, 400);
+    }
+
+    const collection = await getCollectionsService(c.env.DB).createCollection(payload.sub, body.name.trim());
+    return c.json({ success: true, data: collection }, 201);
+  } catch (error) {
+    logException('COLLECTION CREATE EXCEPTION', error);
+    return c.json({ success: false, error: 'Failed to create collection' }, 500);
+  }
+});
+
+// Collection with its items in order
+collections.get('/:id', async (c) => {
+  try {
+    const payload = c.get('jwtPayload');
+    const service = getCollectionsService(c.env.DB);
+    const collection = await service.getCollection(payload.sub, c.req.param('id'));
+    if (!collection) {
+      return c.json({ success: false, error: 'Collection not found' }, 404);
+    }
+
+    const items = await service.listItems(payload.sub, collection.id);
+    return c.json({ success: true, data: { ...collection, items } });
+  } catch (error) {
+    logException('COLLECTION GET EXCEPTION', error);
+    return c.json({ success: false, error: 'Failed to fetch collection' }, 500);
+  }
+});
+
+// Rename and/or set the cover. Body: { name?: string, coverItemId?: string | null }
+collections.patch('/:id', async (c) => {
+  try {
+    const payload = c.get('jwtPayload');
+    const body = await c.req.json().catch(() => null);
+    if (!body || (body.name === undefined && body.coverItemId === undefined)) {
+      return c.json({ success: false, error: 'Provide "name" and/or "coverItemId"' }, 400);
+    }
+    if (body.name !== undefined) {
+      const nameError = validateName(body.name);
+      if (nameError) {
+        return c.json({ success: false, error: nameError }, 400);
+      }
+    }
+    if (body.coverItemId !== undefined && body.coverItemId !== null && typeof body.coverItemId !== 'string') {
+      return c.json({ success: false, error: '"coverItemId" must be a string or null' }, 400);
+    }
+
+    const collection = await getCollectionsService(c.env.DB).updateCollection(payload.sub, c.req.param('id'), {
+      name: body.name?.trim(),
+      coverItemId: body.coverItemId
+    });
+    if (!collection) {
+      return c.json({ success: false, error: 'Collection or cover item not found' }, 404);
+    }
+    return c.json({ success: true, data: collection });
+  } catch (error) {
+    logException('COLLECTION UPDATE EXCEPTION', error);
+    return c.json({ success: false, error: 'Failed to update collection' }, 500);
+  }
+});
+
+collections.delete('/:id', async (c) => {
+  try {
+    const payload = c.get('jwtPayload');
+    const deleted = await getCollectionsService(c.env.DB).deleteCollection(payload.sub, c.req.param('id'));
+    if (!deleted) {
+      return c.json({ success: false, error: 'Collection not found' }, 404);
+    }
+    return c.json({ success: true, message: 'Collection deleted' });
+  } catch (error) {
+    logException('COLLECTION DELETE EXCEPTION', error);
+    return c.json({ success: false, error: 'Failed to delete collection' }, 500);
+  }
+});
+
+// Append a search result. Body: { result: IntermediarySearchResult }
+collections.post('/:id/items', async (c) => {
+  try {
+    const payload = c.get('jwtPayload');
+    const body = await c.req.json().catch(() => null);
+    if (!body || !isValidResultSnapshot(body.result)) {
+      return c.json({
+        success: false,
+        error: 'Body must contain a "result" search result with at least "id" and an http(s) "url"'
+      }, 400);
+    }
+
+    const item = await getCollectionsService(c.env.DB).addItem(payload.sub, c.req.param('id'), body.result);
+    if (!item) {
+      return c.json({ success: false, error: 'Collection not found' }, 404);
+    }
+    return c.json({ success: true, data: item }, 201);
+  } catch (error) {
+    logException('COLLECTION ITEM ADD EXCEPTION', error);
+    return c.json({ success: false, error: 'Failed to add item to collection' }, 500);
+  }
+});
+
+// Reorder items. Body: { itemIds: string[] } listing every item in the new order
+collections.put('/:id/items/order', async (c) => {
+  try {
+    const payload = c.get('jwtPayload');
+    const body = await c.req.json().catch(() => null);
+    if (!body || !Array.isArray(body.itemIds) || body.itemIds.some((id: any) => typeof id !== 'string')) {
+      return c.json({ success: false, error: '"itemIds" must be an array of item ids' }, 400);
+    }
+
+    const result = await getCollectionsService(c.env.DB).reorderItems(payload.sub, c.req.param('id'), body.itemIds);
+    if (!result.success) {
+      const status = result.error === 'Collection not found' ? 404 : 400;
+      return c.json({ success: false, error: result.error }, status);
+    }
+    return c.json({ success: true, message: 'Collection reordered' });
+  } catch (error) {
+    logException('COLLECTION REORDER EXCEPTION', error);
+    return c.json({ success: false, error: 'Failed to reorder collection' }, 500);
+  }
+});
+
+collections.delete('/:id/items/:itemId', async (c) => {
+  try {
+    const payload = c.get('jwtPayload');
+    const removed = await getCollectionsService(c.env.DB).removeItem(payload.sub, c.req.param('id'), c.req.param('itemId'));
+    if (!removed) {
+      return c.json({ success: false, error: 'Collection item not found' }, 404);
+    }
+    return c.json({ success: true, message: 'Item removed from collection' });
+  } catch (error) {
+    logException('COLLECTION ITEM REMOVE EXCEPTION', error);
+    return c.json({ success: false, error: 'Failed to remove item from collection' }, 500);
+  }
+});
+
+export { collections };
@@ -0,0 +1,107 @@
+import { Hono } from 'hono';
+import { DevicesService, validateDevice, MAX_DEVICES_PER_USER } from '../services/devicesService';
+import { Bindings, JWTPayload, DeviceProfile } from '../types';
+import { debugLog } from '../services/queryUtils';
+
+const devices = new Hono<{
+  Bindings: Bindings & { DB: any };
+  Variables: {
+    jwtPayload: JWTPayload;
+  };
+}>();
+
+const getDevicesService = (db: any) => {
+  return new DevicesService(db);
+};
+
+function logException(label: string, error: unknown) {
+  debugLog('LOG_REQUESTS', `💥 [${label}]`, {
+    error: error instanceof Error ? error.message : 'Unknown error'
+  });
+}
+
+devices.get('/', async (c) => {
+  try {
+    const payload = c.get('jwtPayload');
+    const data = await getDevicesService(c.env.DB).listDevices(payload.sub);
+    return c.json({ success: true, data });
+  } catch (error) {
+    logException('DEVICES LIST EXCEPTION', error);
+    return c.json({ success: false, error: 'Failed to fetch devices' }, 500);
+  }
+});
+
+// Register a screen. Body: { name, resolution: "3440x1440", orientation? }
+devices.post('/', async (c) => {
+  try {
+    const payload = c.get('jwtPayload');
+    const body = await c.req.json().catch(() => undefined);
+    const validation = validateDevice(body, false);
+    if (!validation.device) {
+      return c.json({ success: false, error: 'Invalid device', details: validation.errors }, 400);
+    }
+
+    const device = await getDevicesService(c.env.DB).createDevice(
+      payload.sub,
+      validation.device as Pick<DeviceProfile, 'name' | 'width' | 'height' | 'orientation'>
+    );
+    if (!device) {
+      return c.json({ success: false, error: `Device limit reached (max ${MAX_DEVICES_PER_USER})` }, 400);
+    }
+    return c.json({ success: true, data: device }, 201);
+  } catch (error) {
+    logException('DEVICE CREATE EXCEPTION', error);
+    return c.json({ success: false, error: 'Failed to create device' }, 500);
+  }
+});
+
+devices.get('/:id', async (c) => {
+  try {
+    const payload = c.get('jwtPayload');
+    const device = await getDevicesService(c.env.DB).getDevice(payload.sub, c.req.param('id'));
+    if (!device) {
+      return c.json({ success: false, error: 'Device not found' }, 404);
+    }
+    return c.json({ success: true, data: device });
+  } catch (error) {
+    logException('DEVICE GET EXCEPTION', error);
+    return c.json({ success: false, error: 'Failed to fetch device' }, 500);
+  }
+});
+
+// Update only the provided fields
+devices.patch('/:id', async (c) => {
+  try {
+    const payload = c.get('jwtPayload');
+    const body = await c.req.json().catch(() => undefined);
+    const validation = validateDevice(body, true);
+    if (!validation.device) {
+      return c.json({ success: false, error: 'Invalid device', details: validation.errors }, 400);
+    }
+
+    const device = await getDevicesService(c.env.DB).updateDevice(payload.sub, c.req.param('id'), validation.device);
+    if (!device) {
+      return c.json({ success: false, error: 'Device not found' }, 404);
+    }
+    return c.json({ success: true, data: device });
+  } catch (error) {
+    logException('DEVICE UPDATE EXCEPTION', error);
+    return c.json({ success: false, error: 'Failed to update device' }, 500);
+  }
+});
+
+devices.delete('/:id', async (c) => {
+  try {
+    const payload = c.get('jwtPayload');
+    const deleted = await getDevicesService(c.env.DB).deleteDevice(payload.sub, c.req.param('id'));
+    if (!deleted) {
+      return c.json({ success: false, error: 'Device not found' }, 404);
+    }
+    return c.json({ success: true, message: 'Device deleted' });
+  } catch (error) {
+    logException('DEVICE DELETE EXCEPTION', error);
+    return c.json({ success: false, error: 'Failed to delete device' }, 500);
+  }
+});
+
+export { devices };
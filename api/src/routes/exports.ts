@@ -0,0 +1,64 @@
+import { Hono } from 'hono';
+import { CollectionsService } from '../services/collectionsService';
+import { validateExportSelection, imageExportUrl } from '../services/zipExport';
+import { importSigningKey, signUrl } from '../services/urlSigning';
+import { SEARCH_ENGINE_CONFIG } from '../config/searchEngines';
+import { Bindings, JWTPayload } from '../types';
+import { debugLog } from '../services/queryUtils';
+
+const exportRoutes = new Hono<{
+  Bindings: Bindings & { DB: any };
+  Variables: {
+    jwtPayload: JWTPayload;
+  };
+}>();
+
+// Mints a signed link to a streaming ZIP export, so the browser can download
+// it directly. Body: { collectionId } or { imageIds: [...] }
+exportRoutes.post('/', async (c) => {
+  try {
+    const payload = c.get('jwtPayload');
+    if (!c.env.URL_SIGNING_SECRET) {
+      return c.json({ success: false, error: 'Exports are not configured on this server' }, 503);
+    }
+
+    const body = await c.req.json().catch(() => undefined);
+    const { selection, errors } = validateExportSelection(body);
+    if (!selection) {
+      return c.json({ success: false, error: 'Invalid export', details: errors }, 400);
+    }
+
+    if ('collectionId' in selection) {
+      const collection = await new CollectionsService(c.env.DB).getCollection(payload.sub, selection.collectionId);
+      if (!collection) {
+        return c.json({ success: false, error: 'Collection not found' }, 404);
+      }
+      const { MAX_IMAGES } = SEARCH_ENGINE_CONFIG.EXPORT;
+      if (collection.itemCount > MAX_IMAGES) {
+        return c.json({
+          success: false,
+          error: 'Invalid export',
+          details: [`Too many images (max ${MAX_IMAGES}); the collection has ${collection.itemCount}`]
+        }, 400);
+      }
+    }
+
+    const expiresAt = Math.floor(Date.now() / 1000) + SEARCH_ENGINE_CONFIG.EXPORT.LINK_TTL_SECONDS;
+    const downloadUrl = await signUrl(imageExportUrl(new URL(c.req.url).origin, selection), {
+      key: await importSigningKey(c.env.URL_SIGNING_SECRET),
+      userId: payload.sub,
+      expiresAt
+    });
+    return c.json({
+      success: true,
+      data: { downloadUrl, expiresAt: new Date(expiresAt * 1000).toISOString() }
+    }, 201);
+  } catch (error) {
+    debugLog('LOG_REQUESTS', '💥 [EXPORT LINK EXCEPTION]', {
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+    return c.json({ success: false, error: 'Failed to create export link' }, 500);
+  }
+});
+
+export { exportRoutes };
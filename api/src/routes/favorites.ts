@@ -0,0 +1,110 @@
+import { Hono } from 'hono';
+import { FavoritesService, isValidResultSnapshot } from '../services/favoritesService';
+import { Bindings, JWTPayload } from '../types';
+import { debugLog, buildPaginationInfo } from '../services/queryUtils';
+
+const favorites = new Hono<{
+  Bindings: Bindings & { DB: any };
+  Variables: {
+    jwtPayload: JWTPayload;
+  };
+}>();
+
+const getFavoritesService = (db: any) => {
+  return new FavoritesService(db);
+};
+
+// List the current user's favorites, newest first
+favorites.get('/', async (c) => {
+  try {
+    const payload = c.get('jwtPayload');
+    const count = c.req.query('count') ? parseInt(c.req.query('count')!) : 20;
+    const start = c.req.query('start') ? parseInt(c.req.query('start')!) : 1;
+
+    if (isNaN(count) || count < 1 || count > 100) {
+      return c.json({ success: false, error: 'Count must be between 1 and 100' }, 400);
+    }
+    if (isNaN(start) || start < 1) {
+      return c.json({ success: false, error: 'Start index must be greater than 0' }, 400);
+    }
+
+    const service = getFavoritesService(c.env.DB);
+    const { favorites: items, total } = await service.listFavorites(payload.sub, start - 1, count);
+
+    return c.json({
+      success: true,
+      data: {
+        favorites: items,
+        pagination: buildPaginationInfo(start, count, total)
+      }
+    });
+  } catch (error) {
+    debugLog('LOG_REQUESTS', '💥 [FAVORITES LIST EXCEPTION]', {
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+    return c.json({ success: false, error: 'Failed to fetch favorites' }, 500);
+  }
+});
+
+// Star a search result. Body: { result: IntermediarySearchResult, query?: string }
+favorites.post('/', async (c) => {
+  try {
+    const payload = c.get('jwtPayload');
+    const body = await c.req.json().catch(() => null);
+
+    if (!body || !isValidResultSnapshot(body.result)) {
+      return c.json({
+        success: false,
+        error: 'Body must contain a "result" search result with at least "id" and an http(s) "url"'
+      }, 400);
+    }
+    if (body.query !== undefined && typeof body.query !== 'string') {
+      return c.json({ success: false, error: '"query" must be a string' }, 400);
+    }
+
+    const service = getFavoritesService(c.env.DB);
+    const favorite = await service.addFavorite(payload.sub, body.result, body.query);
+
+    return c.json({ success: true, data: favorite }, 201);
+  } catch (error) {
+    debugLog('LOG_REQUESTS', '💥 [FAVORITE ADD EXCEPTION]', {
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+    return c.json({ success: false, error: 'Failed to add favorite' }, 500);
+  }
+});
+
+favorites.get('/:id', async (c) => {
+  try {
+    const payload = c.get('jwtPayload');
+    const service = getFavoritesService(c.env.DB);
+    const favorite = await service.getFavorite(payload.sub, c.req.param('id'));
+
+    if (!favorite) {
+      return c.json({ success: false, error: 'Favorite not found' }, 404);
+    }
+    return c.json({ success: true, data: favorite });
+  } catch (error) {
+    return c.json({ success: false, error: 'Failed to fetch favorite' }, 500);
+  }
+});
+
+favorites.delete('/:id', async (c) => {
+  try {
+    const payload = c.get('jwtPayload');
+    const service = getFavoritesService(c.env.DB);
+    const removed = await service.removeFavorite(payload.sub, c.req.param('id'));
+
+    if (!removed) {
+      return c.json({ success: false, error: 'Favorite not found' }, 404);
+    }
+    return c.json({ success: true, message: 'Favorite removed' });
+  } catch (error) {
+    debugLog('LOG_REQUESTS', '💥 [FAVORITE REMOVE EXCEPTION]', {
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+    return c.json({ success: false, error: 'Failed to remove favorite' }, 500);
+  }
+});
+
+export { favorites };
@@ -0,0 +1,199 @@
+import { Hono } from 'hono';
+import { Bindings } from '../types';
+import { parseProxyTarget, fetchProxiedImage, fetchUpstreamImage, proxiedImageUrl } from '../services/imageProxy';
+import { downloadFilename, contentDisposition, sniffImageBody } from '../services/imageDownload';
+import { ImagesService } from '../services/imagesService';
+import { CollectionsService } from '../services/collectionsService';
+import {
+  validateExportSelection,
+  createExportZip,
+  exportArchiveName,
+  exportImageFromResult,
+  exportImageFromRow,
+  ExportImage
+} from '../services/zipExport';
+import { debugLog } from '../services/queryUtils';
+import { checkFetchUrl } from '../services/fetchGuard';
+import { SEARCH_ENGINE_CONFIG } from '../config/searchEngines';
+
+const images = new Hono<{
+  Bindings: Bindings & { DB: any };
+  Variables: {
+    signedUserId: string;
+  };
+}>();
+
+const PROXY_CACHE_NAME = 'image-proxy';
+
+// Every route here fetches third-party URLs, so the router refuses to serve
+// unless signedUrlAuth ran first, even if it is mounted without it
+images.use('*', async (c, next) => {
+  if (!c.get('signedUserId')) {
+    return c.json({ success: false, error: 'Unauthorized', message: 'A signed link is required.' }, 401);
+  }
+  await next();
+});
+
+// Streams a result image through the Worker. Authorised by a signed link
+// (signedUrlAuth) since <img> tags can't send the Auth0 bearer token.
+images.get('/proxy', async (c) => {
+  const target = parseProxyTarget(c.req.query('u'));
+  if (!target) {
+    return c.json({ success: false, error: 'u must be an absolute http(s) image URL' }, 400);
+  }
+  // Checked before the cache lookup too, so a private address is never served
+  const rejected = checkFetchUrl(target);
+  if (rejected) {
+    return c.json({ success: false, error: rejected.error }, rejected.reason === 'blocked-address' ? 403 : 400);
+  }
+
+  // Keyed on the unsigned proxy URL so all users and link expiries share one entry
+  const cacheKey = new Request(proxiedImageUrl(new URL(c.req.url).origin, target.toString()));
+  const cache = await caches.open(PROXY_CACHE_NAME);
+  const cached = await cache.match(cacheKey);
+  if (cached) {
+    return cached;
+  }
+
+  const result = await fetchProxiedImage(target);
+  if (!result.ok) {
+    debugLog('LOG_API_CALLS', '🚫 [IMAGE PROXY FAILED]', {
+      host: target.hostname,
+      status: result.status,
+      error: result.error
+    });
+    return c.json({ success: false, error: result.error }, result.status);
+  }
+
+  const [body, copy] = result.response.body!.tee();
+  const store = cache.put(cacheKey, new Response(copy, result.response)).catch(error => {
+    // Bodies cut off at the size cap are not cached
+    debugLog('LOG_API_CALLS', '⚠️ [IMAGE PROXY CACHE SKIPPED]', {
+      host: target.hostname,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  });
+  try {
+    c.executionCtx.waitUntil(store);
+  } catch {
+    // No execution context outside the Workers runtime; the put still runs
+  }
+
+  return new Response(body, result.response);
+});
+
+// Full-size download named after the search, e.g. mountain-sunset_3840x2160_unsplash.jpg.
+// Query: q (optional; the image title is used without it)
+images.get('/download/:imageId', async (c) => {
+  const imageId = c.req.param('imageId');
+  const image = await new ImagesService(c.env.DB).getImage(imageId);
+  if (!image) {
+    return c.json({ success: false, error: 'Image not found' }, 404);
+  }
+
+  const target = parseProxyTarget(image.url);
+  if (!target) {
+    return c.json({ success: false, error: 'Image has no downloadable URL' }, 422);
+  }
+
+  const result = await fetchUpstreamImage(target);
+  if (!result.ok) {
+    debugLog('LOG_API_CALLS', '🚫 [IMAGE DOWNLOAD FAILED]', {
+      imageId,
+      host: target.hostname,
+      status: result.status,
+      error: result.error
+    });
+    return c.json({ success: false, error: result.error }, result.status);
+  }
+
+  // The header tells the real type and size; the host's Content-Type is the fallback
+  let sniffed: Awaited<ReturnType<typeof sniffImageBody>>;
+  try {
+    sniffed = await sniffImageBody(result.response.body!);
+  } catch (error) {
+    debugLog('LOG_API_CALLS', '🚫 [IMAGE DOWNLOAD FAILED]', {
+      imageId,
+      host: target.hostname,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+    return c.json({ success: false, error: 'Failed to read image from its host' }, 502);
+  }
+  const { info, body } = sniffed;
+  const mimeType = info?.mimeType || result.response.headers.get('Content-Type')!.split(';')[0].trim();
+  const filename = downloadFilename(
+    { ...image, width: info?.width ?? image.width, height: info?.height ?? image.height },
+    mimeType,
+    c.req.query('q')
+  );
+
+  const headers = new Headers({
+    'Content-Type': mimeType,
+    'Content-Disposition': contentDisposition(filename),
+    'Cache-Control': 'private, no-store',
+    'X-Content-Type-Options': 'nosniff'
+  });
+  const contentLength = result.response.headers.get('Content-Length');
+  if (contentLength) headers.set('Content-Length', contentLength);
+
+  return new Response(body, { status: 200, headers });
+});
+
+// ZIP of a collection (collection=<id>) or a selection (ids=<id>,<id>,...) with a
+// manifest.json. Links are minted by POST /api/exports for the signed-in user.
+images.get('/export', async (c) => {
+  const userId = c.get('signedUserId');
+  const collectionId = c.req.query('collection');
+  const ids = c.req.query('ids');
+  const { selection, errors } = validateExportSelection(
+    collectionId !== undefined ? { collectionId } : { imageIds: ids?.split(',') }
+  );
+  if (!selection) {
+    return c.json({ success: false, error: 'Invalid export', details: errors }, 400);
+  }
+
+  let exportImages: ExportImage[];
+  let collection: { id: string; name: string } | undefined;
+  if ('collectionId' in selection) {
+    const service = new CollectionsService(c.env.DB);
+    const found = await service.getCollection(userId, selection.collectionId);
+    const items = found && await service.listItems(userId, found.id);
+    if (!found || !items) {
+      return c.json({ success: false, error: 'Collection not found' }, 404);
+    }
+    // The collection may have grown since the link was minted
+    const { MAX_IMAGES } = SEARCH_ENGINE_CONFIG.EXPORT;
+    if (items.length > MAX_IMAGES) {
+      return c.json({
+        success: false,
+        error: 'Invalid export',
+        details: [`Too many images (max ${MAX_IMAGES}); the collection has ${items.length}`]
+      }, 400);
+    }
+    collection = { id: found.id, name: found.name };
+    exportImages = items.map(item => exportImageFromResult(item.result));
+  } else {
+    const rows = await new ImagesService(c.env.DB).getImagesWithEngines(selection.imageIds);
+    exportImages = rows.map(exportImageFromRow);
+  }
+  if (exportImages.length === 0) {
+    return c.json({ success: false, error: 'Nothing to export' }, 404);
+  }
+
+  debugLog('LOG_REQUESTS', '📦 [IMAGE EXPORT]', {
+    user: userId,
+    collection: collection?.id,
+    images: exportImages.length
+  });
+
+  return new Response(createExportZip(exportImages, collection), {
+    status: 200,
+    headers: {
+      'Content-Type': 'application/zip',
+      'Content-Disposition': contentDisposition(exportArchiveName(collection?.name)),
+      'Cache-Control': 'private, no-store'
+    }
+  });
+});
+
+export { images };
@@ -0,0 +1,70 @@
+import { Hono } from 'hono';
+import { PreferencesService, validatePreferences } from '../services/preferencesService';
+import { Bindings, JWTPayload, UserPreferences } from '../types';
+import { debugLog } from '../services/queryUtils';
+
+const preferences = new Hono<{
+  Bindings: Bindings & { DB: any };
+  Variables: {
+    jwtPayload: JWTPayload;
+  };
+}>();
+
+const getPreferencesService = (db: any) => {
+  return new PreferencesService(db);
+};
+
+preferences.get('/', async (c) => {
+  try {
+    const payload = c.get('jwtPayload');
+    const data = await getPreferencesService(c.env.DB).getPreferences(payload.sub);
+    return c.json({ success: true, data });
+  } catch (error) {
+    debugLog('LOG_REQUESTS', '💥 [PREFERENCES GET EXCEPTION]', {
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+    return c.json({ success: false, error: 'Failed to fetch preferences' }, 500);
+  }
+});
+
+// Replace all preferences; omitted fields are reset to their defaults
+preferences.put('/', async (c) => {
+  try {
+    const payload = c.get('jwtPayload');
+    const body = await c.req.json().catch(() => undefined);
+    const validation = validatePreferences(body, false);
+    if (!validation.preferences) {
+      return c.json({ success: false, error: 'Invalid preferences', details: validation.errors }, 400);
+    }
+
+    const data = await getPreferencesService(c.env.DB).savePreferences(payload.sub, validation.preferences as UserPreferences);
+    return c.json({ success: true, data });
+  } catch (error) {
+    debugLog('LOG_REQUESTS', '💥 [PREFERENCES PUT EXCEPTION]', {
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+    return c.json({ success: false, error: 'Failed to save preferences' }, 500);
+  }
+});
+
+// Update only the provided fields
+preferences.patch('/', async (c) => {
+  try {
+    const payload = c.get('jwtPayload');
+    const body = await c.req.json().catch(() => undefined);
+    const validation = validatePreferences(body, true);
+    if (!validation.preferences) {
+      return c.json({ success: false, error: 'Invalid preferences', details: validation.errors }, 400);
+    }
+
+    const data = await getPreferencesService(c.env.DB).updatePreferences(payload.sub, validation.preferences);
+    return c.json({ success: true, data });
+  } catch (error) {
+    debugLog('LOG_REQUESTS', '💥 [PREFERENCES PATCH EXCEPTION]', {
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+    return c.json({ success: false, error: 'Failed to update preferences' }, 500);
+  }
+});
+
+export { preferences };
@@ -2,8 +2,16 @@ import { Hono } from 'hono';
 import { UnifiedSearchService } from '../services/unifiedSearchService';
 import { AggregatedSearchService } from '../services/aggregatedSearchService';
 import { CacheService } from '../services/cacheService';
-import { SearchRequest, Bindings, JWTPayload } from '../types';
-import { debugLog } from '../services/queryUtils';
+import { SearchHistoryService } from '../services/searchHistoryService';
+import { PreferencesService } from '../services/preferencesService';
+import { DevicesService, applyDeviceToSearch } from '../services/devicesService';
+import { EngineUsageService, EngineUsageTracker, usageDay } from '../services/engineUsageService';
+import { withProxiedUrls } from '../services/imageProxy';
+import { importSigningKey, signedUrlExpiry, signUrl, UrlSigner } from '../services/urlSigning';
+import { imageDownloadUrl } from '../services/imageDownload';
+import { ImagesService } from '../services/imagesService';
+import { SearchRequest, Bindings, JWTPayload, EngineCallRecorder, LicenseFilter, RecencyFilter } from '../types';
+import { debugLog, buildPaginationInfo, parseResolution, parseAspectRatio, parseImageColor, parseSearchQuery, parseTbs, serializeTbs, IMAGE_COLORS, RECENCY_FILTERS } from '../services/queryUtils';
 
 const USE_AGGREGATED_SEARCH = true;
 
@@ -15,24 +23,70 @@ const search = new Hono<{
 }>();
 
 // Initialize unified search service
-const getUnifiedSearchService = (env: Bindings) => {
-  return new UnifiedSearchService(env);
+const getUnifiedSearchService = (env: Bindings, usage?: EngineCallRecorder) => {
+  return new UnifiedSearchService(env, usage);
 };
 
 const getAggregatedSearchService = (db: any, env: Bindings) => {
   return new AggregatedSearchService(db, env);
 };
 
+const getSearchHistoryService = (db: any) => {
+  return new SearchHistoryService(db);
+};
+
+const getPreferencesService = (db: any) => {
+  return new PreferencesService(db);
+};
+
+const getDevicesService = (db: any) => {
+  return new DevicesService(db);
+};
+
+const LICENSE_FILTERS: LicenseFilter[] = ['creative-commons', 'commercial', 'any'];
+
+// undefined when absent, NaN when not a positive integer
+const parseMinDimension = (value?: string): number | undefined => {
+  if (value === undefined || value === '') return undefined;
+  return /^\d+$/.test(value) && parseInt(value, 10) > 0 ? parseInt(value, 10) : NaN;
+};
+
 // Protected search endpoint - main image search with caching
 search.get('/images', async (c) => {
   try {
     const payload = c.get('jwtPayload');
     const query = c.req.query('q') || c.req.query('query');
+    const preferences = await getPreferencesService(c.env.DB).getPreferences(payload.sub);
+
+    // Operators typed into the query box (site:, -term, color:, ...)
+    const { parsed: parsedQuery, errors: queryErrors } = parseSearchQuery(query || '');
+
+    // Query parameters win, then query operators, then the device profile; user preferences fill in whatever was omitted
     const orientation = c.req.query('orientation') as 'landscape' | 'portrait' | undefined;
-    const count = c.req.query('count') ? parseInt(c.req.query('count')!) : undefined;
+    const deviceId = c.req.query('device');
+    const count = c.req.query('count') ? parseInt(c.req.query('count')!) : preferences.defaultPageSize;
     const start = c.req.query('start') ? parseInt(c.req.query('start')!) : undefined;
-    const engine = c.req.query('engine');
+    const engineParam = c.req.query('engine');
+    const engine = engineParam || (parsedQuery.engines.length === 1 ? parsedQuery.engines[0] : undefined);
     const tbs = c.req.query('tbs');
+    const customTbs = tbs ? parseTbs(tbs) : undefined;
+    const engines = !engineParam && parsedQuery.engines.length > 0
+      ? parsedQuery.engines
+      : !engine && preferences.preferredEngines.length > 0 ? preferences.preferredEngines : undefined;
+    const blockedDomains = Array.from(new Set([...preferences.blockedDomains, ...parsedQuery.excludeSites]));
+    const minWidth = parseMinDimension(c.req.query('minWidth'));
+    const minHeight = parseMinDimension(c.req.query('minHeight'));
+    const strictOrientation = ['true', '1'].includes(c.req.query('strictOrientation') || '');
+    const resolutionParam = c.req.query('resolution');
+    const ratioParam = c.req.query('ratio');
+    const toleranceParam = c.req.query('ratioTolerance');
+    const targetResolution = resolutionParam ? parseResolution(resolutionParam) : undefined;
+    const aspectRatio = ratioParam ? parseAspectRatio(ratioParam) : undefined;
+    const aspectTolerance = toleranceParam !== undefined ? Number(toleranceParam) : undefined;
+    const colorParam = c.req.query('color');
+    const color = colorParam ? parseImageColor(colorParam) : undefined;
+    const license = c.req.query('license') as LicenseFilter | undefined;
+    const since = c.req.query('since') as RecencyFilter | undefined;
 
     // Debug logging for incoming request
     debugLog('LOG_REQUESTS', '📥 [SEARCH REQUEST]', {
@@ -59,12 +113,106 @@ search.get('/images', async (c) => {
       }, 400);
     }
 
-    const searchRequest: SearchRequest = {
-      query,
+    if (queryErrors.length > 0) {
+      return c.json({
+        success: false,
+        error: 'Invalid search operators',
+        details: queryErrors
+      }, 400);
+    }
+
+    if (customTbs && customTbs.errors.length > 0) {
+      return c.json({
+        success: false,
+        error: 'Invalid tbs parameter',
+        details: customTbs.errors
+      }, 400);
+    }
+
+    if (Number.isNaN(minWidth) || Number.isNaN(minHeight)) {
+      return c.json({
+        success: false,
+        error: 'minWidth and minHeight must be positive integers'
+      }, 400);
+    }
+
+    if (targetResolution === null || aspectRatio === null) {
+      return c.json({
+        success: false,
+        error: 'resolution must look like "5120x1440" and ratio like "32:9" or "3.56"'
+      }, 400);
+    }
+
+    if (aspectTolerance !== undefined && !(aspectTolerance >= 0 && aspectTolerance <= 1)) {
+      return c.json({
+        success: false,
+        error: 'ratioTolerance must be a number between 0 and 1'
+      }, 400);
+    }
+
+    if (color === null) {
+      return c.json({
+        success: false,
+        error: `color must be one of: ${IMAGE_COLORS.join(', ')}`
+      }, 400);
+    }
+
+    const resolution = targetResolution ?? parsedQuery.targetResolution;
+
+    if (license && !LICENSE_FILTERS.includes(license)) {
+      return c.json({
+        success: false,
+        error: `license must be one of: ${LICENSE_FILTERS.join(', ')}`
+      }, 400);
+    }
+
+    if (since && !RECENCY_FILTERS.includes(since)) {
+      return c.json({
+        success: false,
+        error: `since must be one of: ${RECENCY_FILTERS.join(', ')}`
+      }, 400);
+    }
+
+    let searchRequest: SearchRequest = {
+      query: parsedQuery.text,
       orientation,
       count,
       start,
-      tbs
+      // Canonical form, so equivalent tbs strings share cache entries
+      tbs: customTbs ? serializeTbs(customTbs.tbs) || undefined : undefined,
+      engines,
+      safeSearch: preferences.safeSearch,
+      minWidth,
+      minHeight,
+      strictOrientation: strictOrientation || undefined,
+      targetResolution: resolution,
+      // A target resolution implies its own aspect ratio
+      aspectRatio: aspectRatio ?? parsedQuery.aspectRatio ?? (resolution ? resolution.width / resolution.height : undefined),
+      aspectTolerance,
+      color: color ?? parsedQuery.color,
+      sites: parsedQuery.sites.length > 0 ? parsedQuery.sites : undefined,
+      // Sent to the engines so excluded sites don't use up result slots; still
+      // filtered afterwards through blockedDomains
+      excludeSites: parsedQuery.excludeSites.length > 0 ? parsedQuery.excludeSites : undefined,
+      excludeTerms: parsedQuery.excludeTerms.length > 0 ? parsedQuery.excludeTerms : undefined,
+      license: license && license !== 'any' ? license : undefined,
+      since,
+      blockedDomains: blockedDomains.length > 0 ? blockedDomains : undefined
+    };
+
+    if (deviceId) {
+      const device = await getDevicesService(c.env.DB).getDevice(payload.sub, deviceId);
+      if (!device) {
+        return c.json({ success: false, error: `Device "${deviceId}" not found` }, 404);
+      }
+      searchRequest = applyDeviceToSearch(device, searchRequest);
+    }
+
+    searchRequest = {
+      ...searchRequest,
+      orientation: searchRequest.orientation ?? preferences.defaultOrientation,
+      minWidth: searchRequest.minWidth ?? preferences.minResolution?.width,
+      minHeight: searchRequest.minHeight ?? preferences.minResolution?.height
     };
 
     // Create cache key for this search request (include engine in cache key)
@@ -81,13 +229,33 @@ search.get('/images', async (c) => {
           const service = getAggregatedSearchService(c.env.DB, c.env);
           return await service.search(searchRequest, payload.sub);
         } else {
-          const service = getUnifiedSearchService(c.env);
-          return await service.search(searchRequest, engine);
+          const usage = new EngineUsageTracker(c.env.DB, payload.sub);
+          const service = getUnifiedSearchService(c.env, usage);
+          const response = await service.search(searchRequest, engine);
+          await usage.flush();
+          return response;
         }
       },
-      'search'
+      searchRequest.since ? 'fresh-search' : 'search',
+      // Aggregations missing an engine expire early; so must their responses
+      response => CacheService.searchResponseMaxTtl(response)
     );
 
+    // History is written after the response so it never adds latency
+    const recorded = getSearchHistoryService(c.env.DB).recordSearch(payload.sub, {
+      query,
+      orientation: searchRequest.orientation,
+      tbs,
+      engine: engine || result.data?.searchInfo?.searchEngine,
+      resultCount: result.data?.pagination?.totalResults ?? 0,
+      cacheHit: fromCache
+    });
+    try {
+      c.executionCtx.waitUntil(recorded);
+    } catch {
+      // No execution context outside the Workers runtime; the write still runs
+    }
+
     if (!result.success) {
       debugLog('LOG_RESPONSES', '❌ [SEARCH FAILED]', {
         user: payload.sub,
@@ -109,9 +277,27 @@ search.get('/images', async (c) => {
       searchTime: result.data?.searchInfo?.searchTime
     });
 
+    // Echo how the query box was interpreted so the UI can show it, and add
+    // signed proxy and download links
+    const origin = new URL(c.req.url).origin;
+    const signer: UrlSigner | null = c.env.URL_SIGNING_SECRET
+      ? { key: await importSigningKey(c.env.URL_SIGNING_SECRET), userId: payload.sub, expiresAt: signedUrlExpiry() }
+      : null;
+    const data = result.data && {
+      ...result.data,
+      results: signer
+        ? await Promise.all(result.data.results.map(async item => ({
+          ...await withProxiedUrls(item, origin, signer),
+          downloadUrl: await signUrl(imageDownloadUrl(origin, await ImagesService.imageIdFor(item.url), parsedQuery.text), signer)
+        })))
+        : result.data.results,
+      ...(parsedQuery.operators.length > 0 && { searchInfo: { ...result.data.searchInfo, parsedQuery } })
+    };
+
     // Add user context and cache info to response
     return c.json({
       ...result,
+      data,
       user: payload.sub,
       searchedAt: new Date().toISOString(),
       cached: fromCache,
@@ -146,8 +332,12 @@ search.get('/suggestions', async (c) => {
       }, 200);
     }
 
-    const service = getAggregatedSearchService(c.env.DB, c.env);
-    const suggestions = await service.getSearchSuggestions(prefix, payload.sub);
+    // Recent searches from history first, then cached aggregation queries
+    const [historySuggestions, cachedSuggestions] = await Promise.all([
+      getSearchHistoryService(c.env.DB).getQuerySuggestions(prefix, payload.sub),
+      getAggregatedSearchService(c.env.DB, c.env).getSearchSuggestions(prefix, payload.sub)
+    ]);
+    const suggestions = Array.from(new Set([...historySuggestions, ...cachedSuggestions])).slice(0, 10);
 
     return c.json({
       success: true,
@@ -163,11 +353,69 @@ search.get('/suggestions', async (c) => {
   }
 });
 
+// Paginated search history for the current user, newest first
+search.get('/history', async (c) => {
+  try {
+    const payload = c.get('jwtPayload');
+    const count = c.req.query('count') ? parseInt(c.req.query('count')!) : 20;
+    const start = c.req.query('start') ? parseInt(c.req.query('start')!) : 1;
+
+    if (isNaN(count) || count < 1 || count > 100) {
+      return c.json({ success: false, error: 'Count must be between 1 and 100' }, 400);
+    }
+    if (isNaN(start) || start < 1) {
+      return c.json({ success: false, error: 'Start index must be greater than 0' }, 400);
+    }
+
+    const { entries, total } = await getSearchHistoryService(c.env.DB).listHistory(payload.sub, start - 1, count);
+
+    return c.json({
+      success: true,
+      data: {
+        entries,
+        pagination: buildPaginationInfo(start, count, total)
+      }
+    });
+  } catch (error) {
+    debugLog('LOG_REQUESTS', '💥 [HISTORY LIST EXCEPTION]', {
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+    return c.json({ success: false, error: 'Failed to fetch search history' }, 500);
+  }
+});
+
+search.delete('/history', async (c) => {
+  try {
+    const payload = c.get('jwtPayload');
+    const removed = await getSearchHistoryService(c.env.DB).clearHistory(payload.sub);
+    return c.json({ success: true, message: `Search history cleared. ${removed} entr${removed === 1 ? 'y' : 'ies'} removed.` });
+  } catch (error) {
+    debugLog('LOG_REQUESTS', '💥 [HISTORY CLEAR EXCEPTION]', {
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+    return c.json({ success: false, error: 'Failed to clear search history' }, 500);
+  }
+});
+
+search.delete('/history/:id', async (c) => {
+  try {
+    const payload = c.get('jwtPayload');
+    const removed = await getSearchHistoryService(c.env.DB).deleteEntry(payload.sub, c.req.param('id'));
+    if (!removed) {
+      return c.json({ success: false, error: 'History entry not found' }, 404);
+    }
+    return c.json({ success: true, message: 'History entry removed' });
+  } catch (error) {
+    return c.json({ success: false, error: 'Failed to remove history entry' }, 500);
+  }
+});
+
 // Protected search service health check with caching
 search.get('/health', async (c) => {
   try {
     const payload = c.get('jwtPayload');
-    const searchService = getUnifiedSearchService(c.env);
+    const usage = new EngineUsageTracker(c.env.DB, payload.sub);
+    const searchService = getUnifiedSearchService(c.env, usage);
     const engine = c.req.query('engine'); // Optional engine selection
     
     // Create cache key for health check
@@ -177,7 +425,10 @@ search.get('/health', async (c) => {
     const { data: healthCheck, fromCache } = await CacheService.withCache(
       cacheKey,
       async () => {
-        return await searchService.healthCheck(engine);
+        // Health checks hit the real APIs, so they count towards usage too
+        const health = await searchService.healthCheck(engine);
+        await usage.flush();
+        return health;
       },
       'health'
     );
@@ -202,6 +453,62 @@ search.get('/health', async (c) => {
   }
 });
 
+// Auth0 RBAC permission required to see usage of other users
+const USAGE_ADMIN_PERMISSION = 'read:usage';
+
+// Outbound engine calls per engine and day. scope=all sums over every user
+// and, like the lifetime totals, is limited to admins.
+search.get('/usage', async (c) => {
+  try {
+    const payload = c.get('jwtPayload');
+    const days = c.req.query('days') ? parseInt(c.req.query('days')!) : 30;
+    const scope = c.req.query('scope') || 'user';
+
+    if (isNaN(days) || days < 1 || days > 365) {
+      return c.json({ success: false, error: 'Days must be between 1 and 365' }, 400);
+    }
+    if (!['user', 'all'].includes(scope)) {
+      return c.json({ success: false, error: 'Scope must be either "user" or "all"' }, 400);
+    }
+    const isAdmin = Array.isArray(payload.permissions) && payload.permissions.includes(USAGE_ADMIN_PERMISSION);
+    if (scope === 'all' && !isAdmin) {
+      return c.json({ success: false, error: `scope=all requires the ${USAGE_ADMIN_PERMISSION} permission` }, 403);
+    }
+
+    const to = usageDay();
+    const from = usageDay(new Date(Date.now() - (days - 1) * 24 * 60 * 60 * 1000));
+    const service = new EngineUsageService(c.env.DB);
+    const [daily, lifetime] = await Promise.all([
+      service.getDailyUsage(from, to, scope === 'user' ? payload.sub : undefined),
+      isAdmin ? service.getEngineTotals() : Promise.resolve(undefined)
+    ]);
+
+    const totals: Record<string, number> = {};
+    for (const entry of daily) {
+      totals[entry.engine] = (totals[entry.engine] || 0) + entry.requests;
+    }
+
+    return c.json({
+      success: true,
+      data: {
+        scope,
+        from,
+        to,
+        totals,
+        daily,
+        ...(lifetime && { lifetime }),
+        requestedBy: payload.sub,
+        requestedAt: new Date().toISOString()
+      }
+    });
+  } catch (error) {
+    debugLog('LOG_REQUESTS', '💥 [USAGE EXCEPTION]', {
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+    return c.json({ success: false, error: 'Failed to get engine usage' }, 500);
+  }
+});
+
 // Get available search engines
 search.get('/engines', async (c) => {
   try {
@@ -1,19 +1,180 @@
-import { SearchRequest, IntermediarySearchResult, IntermediarySearchResponse, ApiResponse } from '../types';
+import { SearchRequest, IntermediarySearchResult, IntermediarySearchResponse, ApiResponse, EngineCallRecorder, EngineSkip, EngineFetchStatus, EngineRank } from '../types';
 import { GoogleSearchEngine } from './googleSearchEngine';
 import { BraveSearchEngine } from './braveSearchEngine';
 import { SerperSearchEngine } from './serperSearchEngine';
-import { debugLog } from './queryUtils';
+import { debugLog, sha1, buildPaginationInfo, withTimeout, canonicalizeImageUrl, searchVariantKey } from './queryUtils';
+import { normalizeDomain } from './preferencesService';
+import { EngineUsageTracker, EngineUsageService } from './engineUsageService';
+import { SEARCH_ENGINE_CONFIG } from '../config/searchEngines';
+import { rankResults, cropToAspectRatio } from './resultRanking';
+import { ImagesService } from './imagesService';
+import { probeImage } from './imageProbe';
+import { withAttribution, licenseMatchesFilter, hostLicensesFor } from './attribution';
 
 const GOOGLE_PAGE_COUNT = 5; // Configurable number of Google pages to fetch
+const DEFAULT_ASPECT_TOLERANCE = 0.1; // Aspect ratios within 10% of the target are kept
+const LINKS_PER_STATEMENT = 14; // aggregation_images rows per insert (7 params each, D1 allows 100)
 
-async function sha1(input: string): Promise<string> {
-  const encoder = new TextEncoder();
-  const data = encoder.encode(input);
-  const hashBuffer = await crypto.subtle.digest('SHA-1', data);
-  return Array.from(new Uint8Array(hashBuffer)).map(b => b.toString(16).padStart(2, '0')).join('');
+function safe(v: any) { return v === undefined ? null : v; }
+
+/**
+ * Reads engines_used, which is either a legacy array of engine names or
+ * { used, skipped } once budgets are involved
+ */
+function parseEnginesUsed(raw: string | null | undefined): { used: string[]; skipped: EngineSkip[] } {
+  try {
+    const parsed = raw ? JSON.parse(raw) : [];
+    if (Array.isArray(parsed)) return { used: parsed, skipped: [] };
+    return { used: parsed.used || [], skipped: parsed.skipped || [] };
+  } catch {
+    return { used: [], skipped: [] };
+  }
 }
 
-function safe(v: any) { return v === undefined ? null : v; }
+function describeSkip(skip: EngineSkip): string {
+  const period = skip.reason === 'daily_budget_exhausted' ? 'daily' : 'monthly';
+  return `Skipped ${skip.engine}: ${period} call budget exhausted`;
+}
+
+// Images of one aggregation in rank order, in the result shape the API has always returned;
+// the usage-rights filter this aggregation searched with labels its images first
+const AGGREGATION_IMAGES_SELECT = `SELECT i.id, i.title, i.url, i.thumbnailUrl, i.sourceUrl, i.sourceDomain, i.description,
+    COALESCE(i.width, 0) AS width, COALESCE(i.height, 0) AS height, i.fileSize, i.mimeType, i.fileFormat,
+    COALESCE(ai.license, i.license) AS license, i.author, i.authorUrl,
+    ai.agg_id, ai.source_engine, ai.source_engines, ai.score
+  FROM aggregation_images ai JOIN images i ON i.id = ai.image_id
+  WHERE ai.agg_id = ? ORDER BY ai.position ASC`;
+
+/**
+ * Maps an aggregation image row to the API shape. Column names are passed
+ * through as before (source_engine); source_engines is parsed into sourceEngines.
+ */
+function toStoredResult(row: any): IntermediarySearchResult {
+  const { source_engines, ...rest } = row;
+  let sourceEngines: EngineRank[] = [];
+  try {
+    sourceEngines = source_engines ? JSON.parse(source_engines) : [];
+  } catch {
+    sourceEngines = [];
+  }
+  if (sourceEngines.length === 0 && row.source_engine) {
+    sourceEngines = [{ engine: row.source_engine }];
+  }
+  return { ...rest, sourceEngines };
+}
+
+type EngineCall = (signal: AbortSignal) => Promise<ApiResponse<IntermediarySearchResponse>>;
+
+interface EngineRun {
+  engine: string;
+  pages: IntermediarySearchResult[][];
+  failures: number;
+  timeouts: number;
+  errors: string[];
+  finished: boolean;
+  startedAt: number;
+  durationMs: number;
+  controllers: Set<AbortController>;
+  done: Promise<void>;
+}
+
+/**
+ * Runs one engine call under the per-engine timeout, aborting it when the
+ * timeout passes. Returns the response data on success.
+ */
+async function runEngineCall(run: EngineRun, index: number, call: EngineCall): Promise<IntermediarySearchResponse | undefined> {
+  const controller = new AbortController();
+  run.controllers.add(controller);
+  try {
+    const { value, timedOut } = await withTimeout(call(controller.signal), SEARCH_ENGINE_CONFIG.FANOUT.ENGINE_TIMEOUT_MS);
+    if (timedOut) {
+      controller.abort();
+      run.timeouts++;
+    } else if (value?.success && value.data?.results) {
+      run.pages[index] = value.data.results;
+      return value.data;
+    } else {
+      run.failures++;
+      if (value?.error) run.errors.push(value.error);
+    }
+  } catch (err) {
+    run.failures++;
+    run.errors.push(err instanceof Error ? err.message : String(err));
+  } finally {
+    run.controllers.delete(controller);
+  }
+  return undefined;
+}
+
+/**
+ * Starts all calls for one engine concurrently, each limited to the per-engine
+ * timeout. With followUps, those calls start once the first call has answered
+ * and can be sized from its response. Pages are stored as they arrive so a
+ * missed deadline keeps partial output.
+ */
+function startEngineRun(
+  engine: string,
+  calls: EngineCall[],
+  followUps?: (first: IntermediarySearchResponse | undefined) => EngineCall[]
+): EngineRun {
+  const run: EngineRun = {
+    engine,
+    pages: [],
+    failures: 0,
+    timeouts: 0,
+    errors: [],
+    finished: false,
+    startedAt: Date.now(),
+    durationMs: 0,
+    controllers: new Set(),
+    done: Promise.resolve()
+  };
+
+  run.done = Promise.all(calls.map((call, index) => runEngineCall(run, index, call)))
+    .then(async ([first]) => {
+      const more = followUps ? followUps(first) : [];
+      await Promise.all(more.map((call, index) => runEngineCall(run, calls.length + index, call)));
+    })
+    .then(() => {
+      run.finished = true;
+      run.durationMs = Date.now() - run.startedAt;
+    });
+
+  return run;
+}
+
+/**
+ * Aborts the calls of a run still in flight, e.g. after the overall deadline
+ */
+function abortEngineRun(run: EngineRun) {
+  for (const controller of run.controllers) controller.abort();
+}
+
+function toEngineStatus(run: EngineRun): EngineFetchStatus {
+  const resultCount = run.pages.reduce((sum, page) => sum + page.length, 0);
+  let status: EngineFetchStatus['status'];
+  if (!run.finished) {
+    status = resultCount > 0 ? 'partial' : 'timeout';
+  } else if (run.failures === 0 && run.timeouts === 0) {
+    status = 'ok';
+  } else if (resultCount > 0) {
+    status = 'partial';
+  } else {
+    status = run.failures === 0 ? 'timeout' : 'error';
+  }
+  return {
+    engine: run.engine,
+    status,
+    durationMs: run.finished ? run.durationMs : Date.now() - run.startedAt,
+    resultCount,
+    ...(run.errors.length > 0 && { error: run.errors.join('; ') })
+  };
+}
+
+function startOfNextUtcDay(): Date {
+  const now = new Date();
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1));
+}
 
 function logAndCheck(sql: string, params: any[], expected: number) {
   if (params.length !== expected) {
@@ -33,14 +194,62 @@ export class AggregatedSearchService {
 
   async search(request: SearchRequest, userId?: string): Promise<ApiResponse<IntermediarySearchResponse>> {
     try {
+      const count = request.count && request.count > 0 ? request.count : 10;
+      const start = request.start && request.start > 0 ? request.start : 1;
       const aggId = await this.generateAggId(request);
       let meta = await this.getAggregatedResult(aggId);
+      const warnings: string[] = [];
+      let engineStatus: EngineFetchStatus[] | undefined;
+      let searchTime = 0;
       if (!meta) {
-        const rawResults = await this.fetchFromEngines(request);
-        const deduped = this.deduplicateResults(rawResults);
-        const optimized = this.optimizeResults(deduped, request.query);
+        const usage = new EngineUsageTracker(this.db, userId);
+        const fetchStart = Date.now();
+        const fetched = await this.fetchFromEngines(request, usage);
+        searchTime = Date.now() - fetchStart;
+        await usage.flush();
+        warnings.push(...fetched.warnings);
+        engineStatus = fetched.engineStatus;
+
+        if (fetched.enginesUsed.length === 0) {
+          // Every engine is over budget: report it, but don't cache an empty aggregation
+          return {
+            success: true,
+            data: {
+              results: [],
+              pagination: buildPaginationInfo(start, count, 0),
+              searchInfo: {
+                query: request.query,
+                orientation: request.orientation,
+                searchTime: 0,
+                searchEngine: 'aggregated',
+                timestamp: new Date().toISOString(),
+                enginesUsed: [],
+                enginesSkipped: fetched.enginesSkipped,
+                warnings
+              }
+            }
+          };
+        }
+
+        await this.enrichDimensions(fetched.results);
+        const ranked = rankResults(fetched.results, {
+          orientation: request.orientation,
+          aspectRatio: request.aspectRatio,
+          targetResolution: request.targetResolution
+        }).map(withAttribution);
         const keywords = this.extractKeywords(request.query);
-        const enginesUsed = this.getEnginesUsed();
+        // Aggregations missing an engine are refreshed once the budget resets,
+        // or after an hour if an engine failed or timed out; recency searches
+        // are refreshed after RECENCY.CACHE_TTL_SECONDS
+        let expiresAt = fetched.enginesSkipped.length > 0
+          ? startOfNextUtcDay()
+          : new Date(Date.now() + 1000 * 60 * 60 * 24 * 7);
+        if (fetched.engineStatus.some(status => status.status !== 'ok')) {
+          expiresAt = new Date(Math.min(expiresAt.getTime(), Date.now() + 1000 * 60 * 60));
+        }
+        if (request.since) {
+          expiresAt = new Date(Math.min(expiresAt.getTime(), Date.now() + SEARCH_ENGINE_CONFIG.RECENCY.CACHE_TTL_SECONDS * 1000));
+        }
         await this.storeAggregatedResult(
           {
             id: aggId,
@@ -48,38 +257,54 @@ export class AggregatedSearchService {
             keywords: keywords.join(','),
             orientation: request.orientation,
             tbs: request.tbs,
-            engines_used: JSON.stringify(enginesUsed),
+            engines_used: JSON.stringify(
+              fetched.enginesSkipped.length > 0
+                ? { used: fetched.enginesUsed, skipped: fetched.enginesSkipped }
+                : fetched.enginesUsed
+            ),
             created_at: new Date().toISOString(),
-            expires_at: new Date(Date.now() + 1000 * 60 * 60 * 24 * 7).toISOString(),
+            expires_at: expiresAt.toISOString(),
             user_id: userId || null
           },
-          optimized
+          ranked
         );
         meta = await this.getAggregatedResult(aggId);
       }
-      const count = request.count && request.count > 0 ? request.count : 10;
-      const start = request.start && request.start > 0 ? request.start : 1;
+      const engines = parseEnginesUsed(meta?.engines_used);
+      for (const skip of engines.skipped) {
+        const warning = describeSkip(skip);
+        if (!warnings.includes(warning)) warnings.push(warning);
+      }
+      if (request.license && engines.used.includes('brave')) {
+        const hostLicenses = hostLicensesFor(request.license);
+        warnings.push(hostLicenses.length > 0
+          ? `Brave has no usage-rights filter; only its results under the ${hostLicenses.join(', ')} are kept`
+          : 'Brave has no usage-rights filter; its results are dropped');
+      }
       const offset = start - 1;
-      const results = await this.getPaginatedResults(aggId, offset, count);
-      const totalResults = await this.getTotalResults(aggId);
-      const totalPages = count > 0 ? Math.ceil(totalResults / count) : 1;
-      const currentPage = count > 0 ? Math.ceil(start / count) : 1;
-      const pagination = {
-        currentPage,
-        totalResults,
-        resultsPerPage: count,
-        totalPages,
-        hasNextPage: currentPage < totalPages,
-        hasPreviousPage: currentPage > 1,
-        nextStartIndex: currentPage < totalPages ? start + count : undefined,
-        previousStartIndex: currentPage > 1 ? Math.max(1, start - count) : undefined
-      };
+      let results: IntermediarySearchResult[];
+      let totalResults: number;
+      if (this.hasResultFilters(request)) {
+        // Per-user filters are applied at read time so aggregations stay shareable
+        const filtered = this.applyResultFilters(await this.getAllResults(aggId), request);
+        results = filtered.slice(offset, offset + count);
+        totalResults = filtered.length;
+      } else {
+        results = await this.getPaginatedResults(aggId, offset, count);
+        totalResults = await this.getTotalResults(aggId);
+      }
+      const pagination = buildPaginationInfo(start, count, totalResults);
       const searchInfo = {
         query: request.query,
         orientation: request.orientation,
-        searchTime: 0,
+        searchTime,
         searchEngine: 'aggregated',
-        timestamp: new Date().toISOString()
+        timestamp: new Date().toISOString(),
+        enginesUsed: engines.used,
+        enginesSkipped: engines.skipped,
+        ...(meta?.expires_at && { expiresAt: meta.expires_at }),
+        ...(engineStatus && { engineStatus }),
+        ...(warnings.length > 0 && { warnings })
       };
       return {
         success: true,
@@ -108,55 +333,69 @@ export class AggregatedSearchService {
        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
     ).bind(...aggParams);
 
-    const itemStmts = items.map(item => {
-      const itemParams = [
-        safe(item.id), safe(result.id), safe(item.title), safe(item.url), safe(item.thumbnailUrl), safe(item.sourceUrl), safe(item.sourceDomain), safe(item.description), safe(item.width), safe(item.height), safe(item.fileSize), safe(item.mimeType), safe(item.fileFormat), safe(item.sourceEngine)
-      ];
-      logAndCheck(
-        `INSERT OR REPLACE INTO result_items (id, agg_id, title, url, thumbnailUrl, sourceUrl, sourceDomain, description, width, height, fileSize, mimeType, fileFormat, source_engine)
-         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
-        itemParams, 14
-      );
-      return this.db.prepare(
-        `INSERT OR REPLACE INTO result_items (id, agg_id, title, url, thumbnailUrl, sourceUrl, sourceDomain, description, width, height, fileSize, mimeType, fileFormat, source_engine)
-         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
-      ).bind(...itemParams);
-    });
+    // Each image is upserted into the global images table and linked to this
+    // aggregation at its rank position; links of an expired aggregation being
+    // replaced are dropped first. Filter-derived license labels only hold for
+    // this search, so they go on the link rather than the shared image row
+    const images = await Promise.all(items.map(async item => ({ id: await ImagesService.imageIdFor(item.url), item })));
+    const clearStmt = this.db.prepare(`DELETE FROM aggregation_images WHERE agg_id = ?`).bind(safe(result.id));
+    const itemStmts = new ImagesService(this.db).prepareUpserts(images, new Date().toISOString());
+    for (let i = 0; i < images.length; i += LINKS_PER_STATEMENT) {
+      const chunk = images.slice(i, i + LINKS_PER_STATEMENT);
+      const linkParams = chunk.flatMap(({ id, item }, index) => [
+        safe(result.id), id, i + index, safe(item.sourceEngine), item.sourceEngines ? JSON.stringify(item.sourceEngines) : null, safe(item.score), safe(item.filterLicense)
+      ]);
+      const sql = `INSERT OR REPLACE INTO aggregation_images (agg_id, image_id, position, source_engine, source_engines, score, license)
+         VALUES ${chunk.map(() => '(?, ?, ?, ?, ?, ?, ?)').join(', ')}`;
+      logAndCheck(sql, linkParams, chunk.length * 7);
+      itemStmts.push(this.db.prepare(sql).bind(...linkParams));
+    }
     await this.db.batch([
       aggStmt,
+      clearStmt,
       ...itemStmts
     ]);
   }
 
   async getPaginatedResults(aggId: string, offset: number, limit: number): Promise<IntermediarySearchResult[]> {
     logAndCheck(
-      `SELECT * FROM result_items WHERE agg_id = ? ORDER BY rowid ASC LIMIT ? OFFSET ?`,
+      `${AGGREGATION_IMAGES_SELECT} LIMIT ? OFFSET ?`,
       [aggId, limit, offset], 3
     );
     const { results } = await this.db.prepare(
-      `SELECT * FROM result_items WHERE agg_id = ? ORDER BY rowid ASC LIMIT ? OFFSET ?`
+      `${AGGREGATION_IMAGES_SELECT} LIMIT ? OFFSET ?`
     ).bind(aggId, limit, offset).all();
-    return results as IntermediarySearchResult[];
+    return (results || []).map(toStoredResult);
+  }
+
+  async getAllResults(aggId: string): Promise<IntermediarySearchResult[]> {
+    const { results } = await this.db.prepare(AGGREGATION_IMAGES_SELECT).bind(aggId).all();
+    return (results || []).map(toStoredResult);
   }
 
+  /**
+   * Stored aggregation metadata, or null once it has expired so the caller
+   * refetches and replaces it
+   */
   async getAggregatedResult(aggId: string): Promise<any> {
+    const now = new Date().toISOString();
     logAndCheck(
-      `SELECT * FROM aggregated_results WHERE id = ?`,
-      [aggId], 1
+      `SELECT * FROM aggregated_results WHERE id = ? AND expires_at > ?`,
+      [aggId, now], 2
     );
     const { results } = await this.db.prepare(
-      `SELECT * FROM aggregated_results WHERE id = ?`
-    ).bind(aggId).all();
+      `SELECT * FROM aggregated_results WHERE id = ? AND expires_at > ?`
+    ).bind(aggId, now).all();
     return results[0] || null;
   }
 
   async getTotalResults(aggId: string): Promise<number> {
     logAndCheck(
-      `SELECT COUNT(*) as count FROM result_items WHERE agg_id = ?`,
+      `SELECT COUNT(*) as count FROM aggregation_images WHERE agg_id = ?`,
       [aggId], 1
     );
     const { results } = await this.db.prepare(
-      `SELECT COUNT(*) as count FROM result_items WHERE agg_id = ?`
+      `SELECT COUNT(*) as count FROM aggregation_images WHERE agg_id = ?`
     ).bind(aggId).all();
     return results[0]?.count || 0;
   }
@@ -209,27 +448,100 @@ export class AggregatedSearchService {
     }
   }
 
-  deduplicateResults(results: IntermediarySearchResult[]): IntermediarySearchResult[] {
-    const seen = new Set<string>();
-    const deduped: IntermediarySearchResult[] = [];
+  /**
+   * Fills in width/height for results that arrived without them (Brave,
+   * Zenserp): first from the images table, then by probing image headers.
+   * Results are updated in place; returns how many images were resolved.
+   */
+  async enrichDimensions(results: IntermediarySearchResult[]): Promise<number> {
+    // Duplicates share one lookup; skip images another engine already sized
+    const groups = new Map<string, IntermediarySearchResult[]>();
     for (const item of results) {
-      if (!seen.has(item.url)) {
-        seen.add(item.url);
-        deduped.push(item);
+      const key = canonicalizeImageUrl(item.url);
+      groups.set(key, [...(groups.get(key) || []), item]);
+    }
+    const missing = Array.from(groups.entries())
+      .filter(([, items]) => !items.some(item => item.width && item.height));
+    if (missing.length === 0) return 0;
+
+    const apply = (items: IntermediarySearchResult[], info: { width: number | null; height: number | null; mimeType?: string | null; fileFormat?: string | null; fileSize?: number | null }) => {
+      for (const item of items) {
+        item.width = info.width || 0;
+        item.height = info.height || 0;
+        if (info.mimeType) item.mimeType = info.mimeType;
+        if (info.fileFormat) item.fileFormat = info.fileFormat;
+        if (info.fileSize && !item.fileSize) item.fileSize = info.fileSize;
       }
+    };
+
+    const ids = await Promise.all(missing.map(([key]) => sha1(key)));
+    const known = await new ImagesService(this.db).getKnownDimensions(ids);
+    const toProbe: IntermediarySearchResult[][] = [];
+    missing.forEach(([, items], index) => {
+      const info = known.get(ids[index]);
+      if (info) apply(items, info);
+      else toProbe.push(items);
+    });
+
+    const { ENABLED, MAX_IMAGES, CONCURRENCY, DEADLINE_MS } = SEARCH_ENGINE_CONFIG.PROBE;
+    let probed = 0;
+    if (ENABLED && toProbe.length > 0) {
+      const queue = toProbe.slice(0, MAX_IMAGES);
+      let next = 0;
+      const worker = async () => {
+        while (next < queue.length) {
+          const items = queue[next++];
+          const info = await probeImage(items[0].url);
+          if (info) {
+            apply(items, info);
+            probed++;
+          }
+        }
+      };
+      await withTimeout(Promise.all(Array.from({ length: Math.min(CONCURRENCY, queue.length) }, worker)), DEADLINE_MS);
     }
-    return deduped;
+
+    debugLog('LOG_API_CALLS', '📐 [DIMENSIONS ENRICHED]', { missing: missing.length, fromImages: known.size, probed });
+    return known.size + probed;
+  }
+
+  hasResultFilters(request: SearchRequest): boolean {
+    return !!(
+      request.minWidth || request.minHeight || request.blockedDomains?.length ||
+      (request.strictOrientation && request.orientation) || request.aspectRatio || request.targetResolution ||
+      request.license
+    );
   }
 
-  optimizeResults(results: IntermediarySearchResult[], query: string): IntermediarySearchResult[] {
-    // Sort by resolution (width * height, descending). If missing/zero, de-prioritize.
-    return results.slice().sort((a, b) => {
-      const aRes = (a.width && a.height) ? a.width * a.height : 0;
-      const bRes = (b.width && b.height) ? b.width * b.height : 0;
-      if (aRes === bRes) return 0;
-      if (aRes === 0) return 1;
-      if (bRes === 0) return -1;
-      return bRes - aRes;
+  /**
+   * Drops results from blocked domains, results whose known dimensions are
+   * below the minimum and, with strictOrientation, results in the other
+   * orientation (squares fit both). With an aspect ratio, results further off
+   * than the tolerance or whose crop would need upscaling to the target
+   * resolution are dropped. Results without dimensions (0x0) are kept. With
+   * a license filter, results whose license is unknown or doesn't satisfy it
+   * are dropped.
+   */
+  applyResultFilters(results: IntermediarySearchResult[], request: SearchRequest): IntermediarySearchResult[] {
+    const blocked = (request.blockedDomains || []).map(normalizeDomain);
+    return results.filter(item => {
+      if (request.license && !licenseMatchesFilter(item.license, request.license)) return false;
+      if (blocked.length > 0 && item.sourceDomain) {
+        const domain = normalizeDomain(item.sourceDomain);
+        if (blocked.some(b => domain === b || domain.endsWith(`.${b}`))) return false;
+      }
+      if (item.width && item.height) {
+        if (request.minWidth && item.width < request.minWidth) return false;
+        if (request.minHeight && item.height < request.minHeight) return false;
+        if (request.strictOrientation && request.orientation === 'landscape' && item.width < item.height) return false;
+        if (request.strictOrientation && request.orientation === 'portrait' && item.height < item.width) return false;
+        if (request.aspectRatio) {
+          const tolerance = request.aspectTolerance ?? DEFAULT_ASPECT_TOLERANCE;
+          const crop = cropToAspectRatio(item.width, item.height, request.aspectRatio, request.targetResolution);
+          if (crop.keptFraction < 1 / (1 + tolerance) || crop.needsUpscale) return false;
+        }
+      }
+      return true;
     });
   }
 
@@ -240,75 +552,129 @@ export class AggregatedSearchService {
   }
 
   async generateAggId(request: SearchRequest): Promise<string> {
-    const base = `${request.query}|${request.orientation || ''}|${request.tbs || ''}`;
+    let base = `${request.query}|${request.orientation || ''}|${request.tbs || ''}`;
+    // Only appended when set so existing aggregation ids stay valid
+    if (request.engines?.length) base += `|engines:${request.engines.slice().sort().join(',')}`;
+    if (request.safeSearch && request.safeSearch !== 'off') base += `|safe:${request.safeSearch}`;
+    const variant = searchVariantKey(request);
+    if (variant) base += `|${variant}`;
     return await sha1(base);
   }
 
-  getEnginesUsed(): string[] {
-    const engines: string[] = ['google'];
-    if (this.env?.BRAVE_SEARCH_API_KEY) engines.push('brave');
-    if (this.env?.SERPER_API_KEY) engines.push('serper');
+  isEngineRequested(engine: string, request: SearchRequest): boolean {
+    return !request.engines?.length || request.engines.includes(engine);
+  }
+
+  // Keep in step with SEARCH_ENGINE_CONFIG.AGGREGATED_ENGINES
+  getEnginesUsed(request: SearchRequest): string[] {
+    const engines: string[] = [];
+    if (this.isEngineRequested('google', request)) engines.push('google');
+    if (this.env?.BRAVE_SEARCH_API_KEY && this.isEngineRequested('brave', request)) engines.push('brave');
+    if (this.env?.SERPER_API_KEY && this.isEngineRequested('serper', request)) engines.push('serper');
     return engines;
   }
 
-  async fetchFromEngines(request: SearchRequest): Promise<IntermediarySearchResult[]> {
-    const results: IntermediarySearchResult[] = [];
-    const errors: string[] = [];
+  /**
+   * Calls left per engine under its configured budget (null = unlimited)
+   */
+  async getRemainingBudgets(engines: string[]): Promise<Map<string, { remaining: number | null; limitedBy?: 'daily' | 'monthly' }>> {
+    const usageService = new EngineUsageService(this.db);
+    const statuses = await Promise.all(engines.map(engine => usageService.getBudgetStatus(engine)));
+    return new Map(statuses.map(status => [status.engine, { remaining: status.remaining, limitedBy: status.limitedBy }]));
+  }
+
+  async fetchFromEngines(
+    request: SearchRequest,
+    usage?: EngineCallRecorder
+  ): Promise<{
+    results: IntermediarySearchResult[];
+    enginesUsed: string[];
+    enginesSkipped: EngineSkip[];
+    engineStatus: EngineFetchStatus[];
+    warnings: string[];
+  }> {
+    const warnings: string[] = [];
+    const enginesSkipped: EngineSkip[] = [];
+
+    // Skip engines whose daily/monthly call budget is already spent
+    const candidates = this.getEnginesUsed(request);
+    const budgets = await this.getRemainingBudgets(candidates);
+    const enginesUsed = candidates.filter(engine => {
+      const budget = budgets.get(engine);
+      if (budget && budget.remaining !== null && budget.remaining <= 0) {
+        const skip: EngineSkip = {
+          engine,
+          reason: budget.limitedBy === 'monthly' ? 'monthly_budget_exhausted' : 'daily_budget_exhausted'
+        };
+        enginesSkipped.push(skip);
+        warnings.push(describeSkip(skip));
+        return false;
+      }
+      return true;
+    });
+
+    if (enginesSkipped.length > 0) {
+      debugLog('LOG_ENGINE_SELECTION', '💸 [ENGINE BUDGET EXHAUSTED]', { query: request.query, enginesSkipped });
+    }
 
     // Instantiate engines from env
-    const google = new GoogleSearchEngine(this.env.GOOGLE_SEARCH_API_KEY, this.env.GOOGLE_SEARCH_ENGINE_ID);
-    const brave = this.env.BRAVE_SEARCH_API_KEY ? new BraveSearchEngine(this.env.BRAVE_SEARCH_API_KEY) : null;
-    const serper = this.env.SERPER_API_KEY ? new SerperSearchEngine(this.env.SERPER_API_KEY) : null;
+    const google = enginesUsed.includes('google') ? new GoogleSearchEngine(this.env.GOOGLE_SEARCH_API_KEY, this.env.GOOGLE_SEARCH_ENGINE_ID, usage) : null;
+    const brave = enginesUsed.includes('brave') ? new BraveSearchEngine(this.env.BRAVE_SEARCH_API_KEY, usage) : null;
+    const serper = enginesUsed.includes('serper') ? new SerperSearchEngine(this.env.SERPER_API_KEY, usage) : null;
 
-    // Google: fetch up to N pages
-    try {
-      const googlePageResults: IntermediarySearchResult[] = [];
-      const count = request.count && request.count > 0 ? request.count : 10;
-      for (let i = 0; i < GOOGLE_PAGE_COUNT; i++) {
-        const start = 1 + i * count;
-        const pageReq = { ...request, count, start };
-        const resp = await google.search(pageReq);
-        if (resp.success && resp.data?.results) {
-          googlePageResults.push(...resp.data.results);
-        }
+    const runs: EngineRun[] = [];
+
+    // Google: fetch the first page, then up to N-1 more concurrently. Each
+    // page is a billable call, so pages past the end of the result set are skipped
+    if (google) {
+      // Google CSE caps num at 10 per page
+      const count = request.count && request.count > 0 ? Math.min(request.count, 10) : 10;
+      const googleBudget = budgets.get('google')?.remaining ?? null;
+      const pageCount = googleBudget !== null ? Math.min(GOOGLE_PAGE_COUNT, googleBudget) : GOOGLE_PAGE_COUNT;
+      if (pageCount < GOOGLE_PAGE_COUNT) {
+        warnings.push(`Google limited to ${pageCount} of ${GOOGLE_PAGE_COUNT} pages by its call budget`);
       }
-      results.push(...googlePageResults);
-    } catch (err) {
-      errors.push('Google: ' + (err instanceof Error ? err.message : String(err)));
+      const page = (i: number): EngineCall => signal => google.search({ ...request, count, start: 1 + i * count }, signal);
+      runs.push(startEngineRun('google', [page(0)], first => {
+        const available = first ? Math.min(pageCount, first.pagination.totalPages) : 0;
+        return Array.from({ length: Math.max(0, available - 1) }, (_, i) => page(i + 1));
+      }));
     }
 
     // Brave: fetch up to 100 results
     if (brave) {
-      try {
-        const braveReq = { ...request, count: 100, start: 1 };
-        const resp = await brave.search(braveReq);
-        if (resp.success && resp.data?.results) {
-          results.push(...resp.data.results);
-        }
-      } catch (err) {
-        errors.push('Brave: ' + (err instanceof Error ? err.message : String(err)));
-      }
+      runs.push(startEngineRun('brave', [signal => brave.search({ ...request, count: 100, start: 1 }, signal)]));
     }
 
     // Serper: fetch up to 100 results
     if (serper) {
-      try {
-        const serperReq = { ...request, count: 100, start: 1 };
-        const resp = await serper.search(serperReq);
-        if (resp.success && resp.data?.results) {
-          results.push(...resp.data.results);
-        }
-      } catch (err) {
-        errors.push('Serper: ' + (err instanceof Error ? err.message : String(err)));
-      }
+      runs.push(startEngineRun('serper', [signal => serper.search({ ...request, count: 100, start: 1 }, signal)]));
     }
 
-    // Optionally log errors (could use debugLog if available)
-    if (errors.length > 0) {
-      // eslint-disable-next-line no-console
-      console.warn('Engine fetch errors:', errors);
-    }
+    // Wait for every engine, but never past the overall deadline; calls still
+    // running then are aborted so they stop using subrequests
+    const deadline = SEARCH_ENGINE_CONFIG.FANOUT.OVERALL_DEADLINE_MS;
+    await withTimeout(Promise.all(runs.map(run => run.done)), deadline);
+
+    const engineStatus = runs.map(toEngineStatus);
+    runs.filter(run => !run.finished).forEach(abortEngineRun);
+    runs.forEach((run, index) => {
+      const { status } = engineStatus[index];
+      if (!run.finished) {
+        warnings.push(`${run.engine} did not finish within ${deadline}ms; results may be incomplete`);
+      } else if (status === 'timeout') {
+        warnings.push(`${run.engine} timed out after ${SEARCH_ENGINE_CONFIG.FANOUT.ENGINE_TIMEOUT_MS}ms`);
+      } else if (status === 'partial') {
+        warnings.push(`${run.engine} returned incomplete results`);
+      } else if (status === 'error') {
+        warnings.push(`${run.engine} failed`);
+      }
+    });
+
+    debugLog('LOG_API_CALLS', '⏱️ [ENGINE FAN-OUT]', { query: request.query, engineStatus });
 
-    return results;
+    // Engine order (google, brave, serper) and page order are kept for dedupe
+    const results = runs.flatMap(run => run.pages.flat());
+    return { results, enginesUsed, enginesSkipped, engineStatus, warnings };
   }
 } 
\ No newline at end of file
@@ -0,0 +1,106 @@
+/**
+ * License and author details for search results. Engines only know the
+ * usage-rights filter they were asked to apply; well-known hosts let us fill
+ * in the rest from the image and page URLs.
+ */
+
+import { IntermediarySearchResult, LicenseFilter } from '../types';
+
+type Attribution = Pick<IntermediarySearchResult, 'license' | 'author' | 'authorUrl'>;
+
+// Label stored on results returned by an engine that applied the usage-rights filter
+const LICENSE_FILTER_LABELS: Record<Exclude<LicenseFilter, 'any'>, string> = {
+  'creative-commons': 'Creative Commons',
+  'commercial': 'Commercial license'
+};
+
+// Hosts whose whole catalogue is published under one license, and the
+// usage-rights filters that license satisfies (none of them is Creative Commons)
+const HOST_LICENSES: Array<{ host: RegExp; license: string; satisfies: Array<Exclude<LicenseFilter, 'any'>> }> = [
+  { host: /(^|\.)unsplash\.com$/, license: 'Unsplash License', satisfies: ['commercial'] },
+  { host: /(^|\.)pexels\.com$/, license: 'Pexels License', satisfies: ['commercial'] },
+  { host: /(^|\.)pixabay\.com$/, license: 'Pixabay Content License', satisfies: ['commercial'] }
+];
+
+// Page URLs that name the uploader, e.g. flickr.com/photos/<user>/<id>
+const AUTHOR_PAGES: Array<{ host: RegExp; path: RegExp; profileUrl: (user: string) => string }> = [
+  { host: /(^|\.)flickr\.com$/, path: /^\/photos\/([^/]+)\/\d+/, profileUrl: user => `https://www.flickr.com/photos/${user}/` },
+  { host: /(^|\.)deviantart\.com$/, path: /^\/([^/]+)\/art\//, profileUrl: user => `https://www.deviantart.com/${user}` }
+];
+
+export function licenseFilterLabel(license?: LicenseFilter): string | undefined {
+  return license && license !== 'any' ? LICENSE_FILTER_LABELS[license] : undefined;
+}
+
+/**
+ * Whether a result's license label meets a usage-rights filter: the label the
+ * aggregation's engines searched with, or a host license that satisfies it
+ */
+export function licenseMatchesFilter(license: string | undefined, filter: LicenseFilter): boolean {
+  if (filter === 'any') return true;
+  if (!license) return false;
+  return license === LICENSE_FILTER_LABELS[filter] ||
+    HOST_LICENSES.some(rule => rule.license === license && rule.satisfies.includes(filter));
+}
+
+/**
+ * Host licenses that satisfy a usage-rights filter
+ */
+export function hostLicensesFor(filter: Exclude<LicenseFilter, 'any'>): string[] {
+  return HOST_LICENSES.filter(rule => rule.satisfies.includes(filter)).map(rule => rule.license);
+}
+
+function hostOf(rawUrl?: string): string | null {
+  try {
+    return rawUrl ? new URL(rawUrl).hostname.toLowerCase() : null;
+  } catch {
+    return null;
+  }
+}
+
+function decodeSegment(segment: string): string {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return segment;
+  }
+}
+
+/**
+ * Attribution that can be read off the image and source page URLs alone
+ */
+export function inferAttribution(result: Pick<IntermediarySearchResult, 'url' | 'sourceUrl'>): Attribution {
+  const attribution: Attribution = {};
+  const hosts = [hostOf(result.url), hostOf(result.sourceUrl)].filter((host): host is string => !!host);
+
+  const licensed = HOST_LICENSES.find(rule => hosts.some(host => rule.host.test(host)));
+  if (licensed) attribution.license = licensed.license;
+
+  const pageHost = hostOf(result.sourceUrl);
+  if (pageHost) {
+    const pathname = new URL(result.sourceUrl!).pathname;
+    for (const rule of AUTHOR_PAGES) {
+      const user = rule.host.test(pageHost) ? pathname.match(rule.path)?.[1] : undefined;
+      if (user) {
+        attribution.author = decodeSegment(user);
+        attribution.authorUrl = rule.profileUrl(user);
+        break;
+      }
+    }
+  }
+  return attribution;
+}
+
+/**
+ * Fills license/author fields the engines left empty; engine values win
+ */
+export function withAttribution(result: IntermediarySearchResult): IntermediarySearchResult {
+  const inferred = inferAttribution(result);
+  if (!inferred.license && !inferred.author) return result;
+  return {
+    ...result,
+    license: result.license || inferred.license,
+    author: result.author || inferred.author,
+    authorUrl: result.authorUrl || inferred.authorUrl
+  };
+}
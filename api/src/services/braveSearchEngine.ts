@@ -6,11 +6,17 @@ import {
   IntermediaryPaginationInfo,
   BraveSearchResponse,
   BraveImageResult,
-  ApiResponse 
+  ApiResponse,
+  SafeSearchLevel,
+  RecencyFilter,
+  EngineCallRecorder
 } from '../types';
-import { debugLog, isValidImageUrl, getMimeTypeFromUrl, getFileFormatFromUrl, craftBraveWallpaperQuery } from './queryUtils';
+import { debugLog, isValidImageUrl, getMimeTypeFromUrl, getFileFormatFromUrl, craftBraveWallpaperQuery, searchVariantKey } from './queryUtils';
 import { SEARCH_ENGINE_CONFIG } from '../config/searchEngines';
 
+// Brave's freshness values: past day, week, month or year
+const BRAVE_FRESHNESS: Record<RecencyFilter, string> = { day: 'pd', week: 'pw', month: 'pm', year: 'py' };
+
 // Interface for caching raw Brave results
 interface BraveCachedResults {
   allResults: IntermediarySearchResult[];
@@ -26,13 +32,15 @@ export class BraveSearchEngine implements SearchEngine {
   public readonly supportsTbs = SEARCH_ENGINE_CONFIG.TBS_SUPPORT.BRAVE;
   private apiKey: string;
   private baseUrl = 'https://api.search.brave.com/res/v1/images/search';
+  private usage?: EngineCallRecorder;
   
   // Simple in-memory cache for raw results (separate from main cache)
   private static rawResultsCache = new Map<string, BraveCachedResults>();
   private static readonly RAW_CACHE_TTL = 604800000; // 1 week in milliseconds
 
-  constructor(apiKey: string) {
+  constructor(apiKey: string, usage?: EngineCallRecorder) {
     this.apiKey = apiKey;
+    this.usage = usage;
   }
 
   /**
@@ -63,23 +71,23 @@ export class BraveSearchEngine implements SearchEngine {
   }
 
   /**
-   * Creates a cache key for raw results (query + orientation only)
+   * Creates a cache key for raw results (query + orientation + safe search level)
    */
-  private createRawResultsCacheKey(query: string, orientation?: 'landscape' | 'portrait'): string {
-    return `brave_raw:${query.toLowerCase().trim()}:${orientation || 'any'}`;
+  private createRawResultsCacheKey(query: string, orientation?: 'landscape' | 'portrait', safeSearch?: SafeSearchLevel, target = ''): string {
+    return `brave_raw:${query.toLowerCase().trim()}:${orientation || 'any'}:${safeSearch || 'off'}:${target}`;
   }
 
   /**
    * Gets cached raw results if available and not expired
    */
-  private getCachedRawResults(cacheKey: string): BraveCachedResults | null {
+  private getCachedRawResults(cacheKey: string, maxAgeMs = BraveSearchEngine.RAW_CACHE_TTL): BraveCachedResults | null {
     const cached = BraveSearchEngine.rawResultsCache.get(cacheKey);
     if (!cached) return null;
 
     const now = Date.now();
     const age = now - new Date(cached.fetchedAt).getTime();
     
-    if (age > BraveSearchEngine.RAW_CACHE_TTL) {
+    if (age > maxAgeMs) {
       BraveSearchEngine.rawResultsCache.delete(cacheKey);
       return null;
     }
@@ -108,20 +116,29 @@ export class BraveSearchEngine implements SearchEngine {
   /**
    * Fetches fresh results from Brave API
    */
-  private async fetchFromBraveAPI(request: SearchRequest): Promise<BraveCachedResults> {
+  private async fetchFromBraveAPI(request: SearchRequest, signal?: AbortSignal): Promise<BraveCachedResults> {
     const startTime = Date.now();
     
     // Craft optimized query using Brave search operators
     const optimizedQuery = craftBraveWallpaperQuery(request.query, {
       orientation: request.orientation,
+      aspectRatio: request.aspectRatio,
+      targetResolution: request.targetResolution,
+      color: request.color,
+      sites: request.sites,
+      excludeSites: request.excludeSites,
+      excludeTerms: request.excludeTerms,
       engine: 'brave'
     });
     
     const url = new URL(this.baseUrl);
     url.searchParams.set('q', optimizedQuery);
     url.searchParams.set('count', '100'); // Always fetch maximum for caching
-    url.searchParams.set('safesearch', 'off');
+    url.searchParams.set('safesearch', request.safeSearch || 'off');
     url.searchParams.set('spellcheck', 'false');
+    if (request.since) {
+      url.searchParams.set('freshness', BRAVE_FRESHNESS[request.since]);
+    }
 
     const searchUrl = url.toString();
 
@@ -138,6 +155,7 @@ export class BraveSearchEngine implements SearchEngine {
       timestamp: new Date().toISOString()
     });
 
+    this.usage?.recordCall(SEARCH_ENGINE_CONFIG.AVAILABLE_ENGINES.BRAVE);
     const response = await fetch(searchUrl, {
       method: 'GET',
       headers: {
@@ -145,7 +163,8 @@ export class BraveSearchEngine implements SearchEngine {
         'Accept-Encoding': 'gzip',
         'X-Subscription-Token': this.apiKey,
         'User-Agent': 'Galactic-Parallax-API/1.0'
-      }
+      },
+      signal
     });
 
     if (!response.ok) {
@@ -170,7 +189,8 @@ export class BraveSearchEngine implements SearchEngine {
       
       if (!request.orientation) return true;
       // Note: Brave doesn't provide dimensions, so we can't filter by orientation here
-      // The orientation filtering is handled by the query optimization
+      // The query optimization steers orientation; aggregated search enforces it
+      // (strictOrientation) once dimensions have been probed
       return true;
     });
 
@@ -204,7 +224,7 @@ export class BraveSearchEngine implements SearchEngine {
   /**
    * Single optimized search using Brave Search API with caching
    */
-  async search(request: SearchRequest): Promise<ApiResponse<IntermediarySearchResponse>> {
+  async search(request: SearchRequest, signal?: AbortSignal): Promise<ApiResponse<IntermediarySearchResponse>> {
     try {
       // Validate request
       const validation = this.validateSearchRequest(request);
@@ -216,12 +236,12 @@ export class BraveSearchEngine implements SearchEngine {
       }
 
       // Check for cached raw results first
-      const rawCacheKey = this.createRawResultsCacheKey(request.query, request.orientation);
-      let cachedResults = this.getCachedRawResults(rawCacheKey);
+      const rawCacheKey = this.createRawResultsCacheKey(request.query, request.orientation, request.safeSearch, searchVariantKey(request));
+      let cachedResults = this.getCachedRawResults(rawCacheKey, request.since ? SEARCH_ENGINE_CONFIG.RECENCY.CACHE_TTL_SECONDS * 1000 : undefined);
       
       // Fetch fresh results if not cached
       if (!cachedResults) {
-        cachedResults = await this.fetchFromBraveAPI(request);
+        cachedResults = await this.fetchFromBraveAPI(request, signal);
         this.setCachedRawResults(rawCacheKey, cachedResults);
       }
 
@@ -330,6 +350,7 @@ export class BraveSearchEngine implements SearchEngine {
       url.searchParams.set('safesearch', 'off');
       url.searchParams.set('spellcheck', 'false');
 
+      this.usage?.recordCall(SEARCH_ENGINE_CONFIG.AVAILABLE_ENGINES.BRAVE);
       const response = await fetch(url.toString(), {
         method: 'GET',
         headers: {
@@ -1,4 +1,5 @@
-import { SearchRequest, ApiResponse } from '../types';
+import { SearchRequest, ApiResponse, IntermediarySearchResponse } from '../types';
+import { SEARCH_ENGINE_CONFIG } from '../config/searchEngines';
 
 export interface CacheConfig {
   ttl: number; // Time to live in seconds
@@ -19,6 +20,8 @@ interface CacheEntry<T> {
 export class CacheService {
   private static readonly DEFAULT_TTL = 3600; // 1 hour
   private static readonly SEARCH_CACHE_TTL = 604800; // 1 week for search results
+  private static readonly FRESH_SEARCH_CACHE_TTL = SEARCH_ENGINE_CONFIG.RECENCY.CACHE_TTL_SECONDS; // Searches with `since`
+  private static readonly PARTIAL_SEARCH_CACHE_TTL = 300; // 5 minutes when engines were skipped and nothing was stored
   private static readonly SUGGESTIONS_CACHE_TTL = 86400; // 24 hours for suggestions
   private static readonly HEALTH_CACHE_TTL = 300; // 5 minutes for health checks
 
@@ -77,6 +80,7 @@ export class CacheService {
           engine: 'serper',
           // Note: Deliberately excluding count and start for Serper
           // This enables efficient pagination from a single cached result set
+          ...this.getResultFilterParams(request),
           ...(userId && { userId })
         }
       });
@@ -91,12 +95,39 @@ export class CacheService {
           count: request.count || 10,
           start: request.start || 1,
           engine: engine,
+          ...this.getResultFilterParams(request),
           ...(userId && { userId })
         }
       });
     }
   }
 
+  /**
+   * Request fields that change the result set (canonical tbs, preferences,
+   * filters), so that editing preferences never serves results cached under
+   * the old ones
+   */
+  private static getResultFilterParams(request: SearchRequest): Record<string, any> {
+    return {
+      ...(request.tbs && { tbs: request.tbs }),
+      ...(request.engines && { engines: request.engines.slice().sort() }),
+      ...(request.safeSearch && request.safeSearch !== 'off' && { safeSearch: request.safeSearch }),
+      ...(request.minWidth && { minWidth: request.minWidth }),
+      ...(request.minHeight && { minHeight: request.minHeight }),
+      ...(request.strictOrientation && { strictOrientation: true }),
+      ...(request.targetResolution && { targetResolution: `${request.targetResolution.width}x${request.targetResolution.height}` }),
+      ...(request.aspectRatio && { aspectRatio: request.aspectRatio.toFixed(3) }),
+      ...(request.aspectTolerance !== undefined && { aspectTolerance: request.aspectTolerance }),
+      ...(request.color && { color: request.color }),
+      ...(request.sites && { sites: request.sites.slice().sort() }),
+      ...(request.excludeSites && { excludeSites: request.excludeSites.slice().sort() }),
+      ...(request.license && { license: request.license }),
+      ...(request.since && { since: request.since }),
+      ...(request.excludeTerms && { excludeTerms: request.excludeTerms.map(t => t.toLowerCase()).sort() }),
+      ...(request.blockedDomains && { blockedDomains: request.blockedDomains.slice().sort() })
+    };
+  }
+
   /**
    * Creates a cache key for suggestions
    */
@@ -206,13 +237,18 @@ export class CacheService {
   /**
    * Gets cache configuration for different types of requests
    */
-  static getCacheConfig(type: 'search' | 'suggestions' | 'health'): CacheConfig {
+  static getCacheConfig(type: 'search' | 'fresh-search' | 'suggestions' | 'health'): CacheConfig {
     switch (type) {
       case 'search':
         return { 
           ttl: this.SEARCH_CACHE_TTL,
           staleWhileRevalidate: 300 // 5 minutes stale-while-revalidate
         };
+      case 'fresh-search':
+        return {
+          ttl: this.FRESH_SEARCH_CACHE_TTL,
+          staleWhileRevalidate: 300
+        };
       case 'suggestions':
         return { 
           ttl: this.SUGGESTIONS_CACHE_TTL,
@@ -229,12 +265,30 @@ export class CacheService {
   }
 
   /**
-   * Wrapper function for cache-aware operations
+   * Upper bound in seconds for caching a search response: never past the
+   * expiry of its stored aggregation, and only briefly when engines were
+   * skipped without storing one. undefined = no limit
+   */
+  static searchResponseMaxTtl(response: ApiResponse<IntermediarySearchResponse>): number | undefined {
+    const searchInfo = response.data?.searchInfo;
+    if (searchInfo?.expiresAt) {
+      return Math.floor((new Date(searchInfo.expiresAt).getTime() - Date.now()) / 1000);
+    }
+    if (searchInfo?.enginesSkipped?.length) {
+      return this.PARTIAL_SEARCH_CACHE_TTL;
+    }
+    return undefined;
+  }
+
+  /**
+   * Wrapper function for cache-aware operations. maxTtl can shorten the
+   * configured TTL per result; 0 or less skips caching it.
    */
   static async withCache<T>(
     cacheKey: string,
     operation: () => Promise<T>,
-    cacheType: 'search' | 'suggestions' | 'health' = 'search'
+    cacheType: 'search' | 'fresh-search' | 'suggestions' | 'health' = 'search',
+    maxTtl?: (data: T) => number | undefined
   ): Promise<{ data: T; fromCache: boolean }> {
     // Try to get from cache first
     const cachedData = await this.getFromCache<T>(cacheKey);
@@ -248,7 +302,13 @@ export class CacheService {
     
     // Store in cache for future requests
     const cacheConfig = this.getCacheConfig(cacheType);
-    await this.setCache(cacheKey, freshData, cacheConfig);
+    const limit = maxTtl?.(freshData);
+    if (limit !== undefined && limit <= 0) {
+      return { data: freshData, fromCache: false };
+    }
+    await this.setCache(cacheKey, freshData, limit !== undefined
+      ? { ...cacheConfig, ttl: Math.min(cacheConfig.ttl, limit) }
+      : cacheConfig);
     
     return { data: freshData, fromCache: false };
   }
@@ -0,0 +1,211 @@
+import { Collection, CollectionItem, IntermediarySearchResult } from '../types';
+import { debugLog, sha1 } from './queryUtils';
+
+interface CollectionRow {
+  id: string;
+  user_id: string;
+  name: string;
+  cover_item_id: string | null;
+  created_at: string;
+  updated_at: string;
+  item_count?: number;
+  cover_result?: string | null;
+}
+
+interface CollectionItemRow {
+  id: string;
+  collection_id: string;
+  url: string;
+  result: string;
+  position: number;
+  added_at: string;
+}
+
+function toCollection(row: CollectionRow): Collection {
+  const cover = row.cover_result ? JSON.parse(row.cover_result) as IntermediarySearchResult : undefined;
+  return {
+    id: row.id,
+    userId: row.user_id,
+    name: row.name,
+    coverItemId: row.cover_item_id ?? undefined,
+    coverImageUrl: cover ? (cover.thumbnailUrl || cover.url) : undefined,
+    itemCount: row.item_count ?? 0,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  };
+}
+
+function toCollectionItem(row: CollectionItemRow): CollectionItem {
+  return {
+    id: row.id,
+    collectionId: row.collection_id,
+    position: row.position,
+    result: JSON.parse(row.result) as IntermediarySearchResult,
+    addedAt: row.added_at
+  };
+}
+
+// Uses the explicit cover when set, otherwise falls back to the first item in order
+const COLLECTION_SELECT = `
+  SELECT c.*,
+    (SELECT COUNT(*) FROM collection_items i WHERE i.collection_id = c.id) AS item_count,
+    COALESCE(
+      (SELECT i.result FROM collection_items i WHERE i.id = c.cover_item_id),
+      (SELECT i.result FROM collection_items i WHERE i.collection_id = c.id ORDER BY i.position ASC LIMIT 1)
+    ) AS cover_result
+  FROM collections c`;
+
+/**
+ * Named, ordered wallpaper sets per user. Items are snapshots of search results,
+ * like favorites, so collections do not depend on the aggregated results cache.
+ */
+export class CollectionsService {
+  db: any;
+
+  constructor(db: any) {
+    this.db = db;
+  }
+
+  async createCollection(userId: string, name: string): Promise<Collection> {
+    const id = crypto.randomUUID();
+    const now = new Date().toISOString();
+
+    await this.db.prepare(
+      `INSERT INTO collections (id, user_id, name, cover_item_id, created_at, updated_at) VALUES (?, ?, ?, NULL, ?, ?)`
+    ).bind(id, userId, name, now, now).run();
+
+    debugLog('LOG_REQUESTS', '📁 [COLLECTION CREATED]', { user: userId, id, name });
+    return (await this.getCollection(userId, id))!;
+  }
+
+  async listCollections(userId: string): Promise<Collection[]> {
+    const { results } = await this.db.prepare(
+      `${COLLECTION_SELECT} WHERE c.user_id = ? ORDER BY c.updated_at DESC`
+    ).bind(userId).all();
+    return (results as CollectionRow[]).map(toCollection);
+  }
+
+  async getCollection(userId: string, id: string): Promise<Collection | null> {
+    const row = await this.db.prepare(
+      `${COLLECTION_SELECT} WHERE c.user_id = ? AND c.id = ?`
+    ).bind(userId, id).first();
+    return row ? toCollection(row as CollectionRow) : null;
+  }
+
+  /**
+   * Renames a collection and/or changes its cover. Pass coverItemId = null to reset
+   * the cover to the first item. Returns null when the collection or the cover item
+   * does not belong to the user.
+   */
+  async updateCollection(
+    userId: string,
+    id: string,
+    changes: { name?: string; coverItemId?: string | null }
+  ): Promise<Collection | null> {
+    const existing = await this.getCollection(userId, id);
+    if (!existing) return null;
+
+    if (changes.coverItemId) {
+      const item = await this.db.prepare(
+        `SELECT id FROM collection_items WHERE collection_id = ? AND id = ?`
+      ).bind(id, changes.coverItemId).first();
+      if (!item) return null;
+    }
+
+    const name = changes.name ?? existing.name;
+    const coverItemId = changes.coverItemId !== undefined ? changes.coverItemId : (existing.coverItemId ?? null);
+
+    await this.db.prepare(
+      `UPDATE collections SET name = ?, cover_item_id = ?, updated_at = ? WHERE user_id = ? AND id = ?`
+    ).bind(name, coverItemId, new Date().toISOString(), userId, id).run();
+
+    return await this.getCollection(userId, id);
+  }
+
+  async deleteCollection(userId: string, id: string): Promise<boolean> {
+    const existing = await this.getCollection(userId, id);
+    if (!existing) return false;
+
+    await this.db.batch([
+      this.db.prepare(`DELETE FROM collection_items WHERE collection_id = ?`).bind(id),
+      this.db.prepare(`DELETE FROM collections WHERE user_id = ? AND id = ?`).bind(userId, id)
+    ]);
+
+    debugLog('LOG_REQUESTS', '🗑️ [COLLECTION DELETED]', { user: userId, id, items: existing.itemCount });
+    return true;
+  }
+
+  async listItems(userId: string, collectionId: string): Promise<CollectionItem[] | null> {
+    const existing = await this.getCollection(userId, collectionId);
+    if (!existing) return null;
+
+    const { results } = await this.db.prepare(
+      `SELECT * FROM collection_items WHERE collection_id = ? ORDER BY position ASC`
+    ).bind(collectionId).all();
+    return (results as CollectionItemRow[]).map(toCollectionItem);
+  }
+
+  /**
+   * Appends a result to the end of a collection. Adding the same image URL again
+   * refreshes its snapshot but keeps its position.
+   */
+  async addItem(userId: string, collectionId: string, result: IntermediarySearchResult): Promise<CollectionItem | null> {
+    const existing = await this.getCollection(userId, collectionId);
+    if (!existing) return null;
+
+    const id = await sha1(`${collectionId}|${result.url}`);
+    const now = new Date().toISOString();
+
+    await this.db.batch([
+      this.db.prepare(
+        `INSERT INTO collection_items (id, collection_id, url, result, position, added_at)
+         VALUES (?, ?, ?, ?, (SELECT COALESCE(MAX(position), -1) + 1 FROM collection_items WHERE collection_id = ?), ?)
+         ON CONFLICT(id) DO UPDATE SET result = excluded.result`
+      ).bind(id, collectionId, result.url, JSON.stringify(result), collectionId, now),
+      this.db.prepare(`UPDATE collections SET updated_at = ? WHERE id = ?`).bind(now, collectionId)
+    ]);
+
+    const row = await this.db.prepare(
+      `SELECT * FROM collection_items WHERE id = ?`
+    ).bind(id).first();
+    return toCollectionItem(row as CollectionItemRow);
+  }
+
+  async removeItem(userId: string, collectionId: string, itemId: string): Promise<boolean> {
+    const existing = await this.getCollection(userId, collectionId);
+    if (!existing) return false;
+
+    const now = new Date().toISOString();
+    const [deleteInfo] = await this.db.batch([
+      this.db.prepare(`DELETE FROM collection_items WHERE collection_id = ? AND id = ?`).bind(collectionId, itemId),
+      this.db.prepare(
+        `UPDATE collections SET updated_at = ?, cover_item_id = CASE WHEN cover_item_id = ? THEN NULL ELSE cover_item_id END WHERE id = ?`
+      ).bind(now, itemId, collectionId)
+    ]);
+
+    return (deleteInfo?.meta?.changes ?? 0) > 0;
+  }
+
+  /**
+   * Rewrites item positions. itemIds must list every item in the collection exactly once.
+   */
+  async reorderItems(userId: string, collectionId: string, itemIds: string[]): Promise<{ success: boolean; error?: string }> {
+    const items = await this.listItems(userId, collectionId);
+    if (!items) return { success: false, error: 'Collection not found' };
+
+    const currentIds = new Set(items.map(item => item.id));
+    const requestedIds = new Set(itemIds);
+    if (requestedIds.size !== itemIds.length || requestedIds.size !== currentIds.size || itemIds.some(id => !currentIds.has(id))) {
+      return { success: false, error: 'itemIds must contain every item of the collection exactly once' };
+    }
+
+    await this.db.batch([
+      ...itemIds.map((itemId, position) =>
+        this.db.prepare(`UPDATE collection_items SET position = ? WHERE collection_id = ? AND id = ?`).bind(position, collectionId, itemId)
+      ),
+      this.db.prepare(`UPDATE collections SET updated_at = ? WHERE id = ?`).bind(new Date().toISOString(), collectionId)
+    ]);
+
+    return { success: true };
+  }
+}
@@ -0,0 +1,165 @@
+import { DeviceProfile, SearchRequest } from '../types';
+import { debugLog, parseResolution } from './queryUtils';
+
+const MAX_DEVICE_NAME_LENGTH = 100;
+export const MAX_DEVICES_PER_USER = 50;
+const MAX_DIMENSION = 20000;
+
+interface DeviceRow {
+  id: string;
+  user_id: string;
+  name: string;
+  width: number;
+  height: number;
+  orientation: 'landscape' | 'portrait';
+  created_at: string;
+  updated_at: string;
+}
+
+type DeviceInput = Pick<DeviceProfile, 'name' | 'width' | 'height' | 'orientation'>;
+
+function toDevice(row: DeviceRow): DeviceProfile {
+  return {
+    id: row.id,
+    name: row.name,
+    width: row.width,
+    height: row.height,
+    orientation: row.orientation,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  };
+}
+
+/**
+ * Validates a device payload: { name, resolution: "3440x1440" } or
+ * { name, width, height }, with an optional orientation (derived from the
+ * resolution when omitted). With partial = true, missing fields are allowed.
+ */
+export function validateDevice(input: any, partial: boolean): { device?: Partial<DeviceInput>; errors: string[] } {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return { errors: ['Device must be a JSON object'] };
+  }
+
+  const errors: string[] = [];
+  const device: Partial<DeviceInput> = {};
+
+  if (input.name !== undefined || !partial) {
+    if (typeof input.name !== 'string' || input.name.trim().length === 0) {
+      errors.push('name is required');
+    } else if (input.name.trim().length > MAX_DEVICE_NAME_LENGTH) {
+      errors.push(`name too long (max ${MAX_DEVICE_NAME_LENGTH} characters)`);
+    } else {
+      device.name = input.name.trim();
+    }
+  }
+
+  const resolution = typeof input.resolution === 'string'
+    ? parseResolution(input.resolution)
+    : (input.width !== undefined || input.height !== undefined ? { width: input.width, height: input.height } : undefined);
+  if (resolution !== undefined || !partial) {
+    const valid = (n: any) => Number.isInteger(n) && n > 0 && n <= MAX_DIMENSION;
+    if (!resolution || !valid(resolution.width) || !valid(resolution.height)) {
+      errors.push(`resolution must look like "3440x1440" (or width and height up to ${MAX_DIMENSION})`);
+    } else {
+      device.width = resolution.width;
+      device.height = resolution.height;
+    }
+  }
+
+  if (input.orientation !== undefined) {
+    if (['landscape', 'portrait'].includes(input.orientation)) {
+      device.orientation = input.orientation;
+    } else {
+      errors.push('orientation must be "landscape" or "portrait"');
+    }
+  } else if (device.width && device.height) {
+    device.orientation = device.width >= device.height ? 'landscape' : 'portrait';
+  }
+
+  return errors.length > 0 ? { errors } : { device, errors };
+}
+
+/**
+ * Search fields a device profile expands to: its orientation, its resolution
+ * as minimum size and target, and the resulting aspect ratio. Fields already
+ * set on the request win.
+ */
+export function applyDeviceToSearch(device: DeviceProfile, request: SearchRequest): SearchRequest {
+  // Measure the screen in the orientation it is used in
+  const long = Math.max(device.width, device.height);
+  const short = Math.min(device.width, device.height);
+  const size = device.orientation === 'landscape' ? { width: long, height: short } : { width: short, height: long };
+
+  return {
+    ...request,
+    orientation: request.orientation ?? device.orientation,
+    minWidth: request.minWidth ?? size.width,
+    minHeight: request.minHeight ?? size.height,
+    targetResolution: request.targetResolution ?? size,
+    aspectRatio: request.aspectRatio ?? size.width / size.height
+  };
+}
+
+/**
+ * Screens registered per user (devices table)
+ */
+export class DevicesService {
+  db: any;
+
+  constructor(db: any) {
+    this.db = db;
+  }
+
+  async listDevices(userId: string): Promise<DeviceProfile[]> {
+    const { results } = await this.db.prepare(
+      `SELECT * FROM devices WHERE user_id = ? ORDER BY name ASC`
+    ).bind(userId).all();
+    return (results as DeviceRow[]).map(toDevice);
+  }
+
+  async getDevice(userId: string, id: string): Promise<DeviceProfile | null> {
+    const row = await this.db.prepare(
+      `SELECT * FROM devices WHERE user_id = ? AND id = ?`
+    ).bind(userId, id).first();
+    return row ? toDevice(row as DeviceRow) : null;
+  }
+
+  /**
+   * Returns null when the user already has MAX_DEVICES_PER_USER devices
+   */
+  async createDevice(userId: string, input: DeviceInput): Promise<DeviceProfile | null> {
+    const countRow = await this.db.prepare(
+      `SELECT COUNT(*) as count FROM devices WHERE user_id = ?`
+    ).bind(userId).first();
+    if ((countRow?.count || 0) >= MAX_DEVICES_PER_USER) return null;
+
+    const id = crypto.randomUUID();
+    const now = new Date().toISOString();
+    await this.db.prepare(
+      `INSERT INTO devices (id, user_id, name, width, height, orientation, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+    ).bind(id, userId, input.name, input.width, input.height, input.orientation, now, now).run();
+
+    debugLog('LOG_REQUESTS', '🖥️ [DEVICE CREATED]', { user: userId, id, name: input.name, resolution: `${input.width}x${input.height}` });
+    return (await this.getDevice(userId, id))!;
+  }
+
+  async updateDevice(userId: string, id: string, changes: Partial<DeviceInput>): Promise<DeviceProfile | null> {
+    const existing = await this.getDevice(userId, id);
+    if (!existing) return null;
+
+    const updated = { ...existing, ...changes };
+    await this.db.prepare(
+      `UPDATE devices SET name = ?, width = ?, height = ?, orientation = ?, updated_at = ? WHERE user_id = ? AND id = ?`
+    ).bind(updated.name, updated.width, updated.height, updated.orientation, new Date().toISOString(), userId, id).run();
+
+    return await this.getDevice(userId, id);
+  }
+
+  async deleteDevice(userId: string, id: string): Promise<boolean> {
+    const info = await this.db.prepare(
+      `DELETE FROM devices WHERE user_id = ? AND id = ?`
+    ).bind(userId, id).run();
+    return (info.meta?.changes ?? 0) > 0;
+  }
+}
+
@@ -0,0 +1,150 @@
+import { EngineCallRecorder, EngineUsageDay, EngineBudgetStatus } from '../types';
+import { SEARCH_ENGINE_CONFIG } from '../config/searchEngines';
+import { debugLog } from './queryUtils';
+
+/**
+ * UTC calendar day (YYYY-MM-DD) used as the accounting bucket
+ */
+export function usageDay(date: Date = new Date()): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Collects outbound engine calls for one request and writes them to D1 in a single batch.
+ * Engines call recordCall() synchronously; the owner of the tracker calls flush().
+ */
+export class EngineUsageTracker implements EngineCallRecorder {
+  db: any;
+  userId: string;
+  private counts = new Map<string, number>();
+
+  constructor(db: any, userId?: string) {
+    this.db = db;
+    this.userId = userId || 'anonymous';
+  }
+
+  recordCall(engine: string): void {
+    this.counts.set(engine, (this.counts.get(engine) || 0) + 1);
+  }
+
+  getCounts(): Record<string, number> {
+    return Object.fromEntries(this.counts);
+  }
+
+  /**
+   * Persists collected counts. Failures are logged, never thrown, so accounting
+   * cannot break a search.
+   */
+  async flush(): Promise<void> {
+    if (this.counts.size === 0 || !this.db) return;
+
+    const now = new Date();
+    const day = usageDay(now);
+    const timestamp = now.toISOString();
+    const statements: any[] = [];
+
+    for (const [engine, calls] of this.counts) {
+      statements.push(
+        this.db.prepare(
+          `INSERT INTO engine_usage (engine, day, user_id, request_count, last_used) VALUES (?, ?, ?, ?, ?)
+           ON CONFLICT(engine, day, user_id) DO UPDATE SET request_count = request_count + excluded.request_count, last_used = excluded.last_used`
+        ).bind(engine, day, this.userId, calls, timestamp),
+        this.db.prepare(
+          `UPDATE search_engines SET request_count = COALESCE(request_count, 0) + ?, last_used = ? WHERE id = ?`
+        ).bind(calls, timestamp, engine)
+      );
+    }
+
+    try {
+      await this.db.batch(statements);
+      debugLog('LOG_API_CALLS', '📈 [ENGINE USAGE]', { user: this.userId, day, calls: this.getCounts() });
+      this.counts.clear();
+    } catch (error) {
+      console.error('Failed to record engine usage:', error);
+    }
+  }
+}
+
+/**
+ * Reports engine call counts from the engine_usage and search_engines tables
+ */
+export class EngineUsageService {
+  db: any;
+
+  constructor(db: any) {
+    this.db = db;
+  }
+
+  /**
+   * Daily call counts per engine between two days (inclusive). With userId the
+   * counts are limited to that user, otherwise they are summed over all users.
+   */
+  async getDailyUsage(from: string, to: string, userId?: string): Promise<EngineUsageDay[]> {
+    const userFilter = userId ? ' AND user_id = ?' : '';
+    const params = userId ? [from, to, userId] : [from, to];
+
+    const { results } = await this.db.prepare(
+      `SELECT day, engine, SUM(request_count) AS requests, MAX(last_used) AS last_used
+       FROM engine_usage WHERE day >= ? AND day <= ?${userFilter}
+       GROUP BY day, engine ORDER BY day DESC, engine ASC`
+    ).bind(...params).all();
+
+    return (results || []).map((row: any) => ({
+      day: row.day,
+      engine: row.engine,
+      requests: row.requests || 0,
+      lastUsed: row.last_used
+    }));
+  }
+
+  /**
+   * Calls left for an engine under its configured daily and monthly budgets,
+   * counted over all users. remaining is null when the engine has no budget.
+   */
+  async getBudgetStatus(engine: string): Promise<EngineBudgetStatus> {
+    const budget = SEARCH_ENGINE_CONFIG.BUDGETS[engine.toUpperCase()];
+    if (!budget || (budget.DAILY === null && budget.MONTHLY === null)) {
+      return { engine, remaining: null };
+    }
+
+    const today = usageDay();
+    const monthStart = `${today.slice(0, 7)}-01`;
+    const row = await this.db.prepare(
+      `SELECT
+         COALESCE(SUM(CASE WHEN day = ? THEN request_count ELSE 0 END), 0) AS today,
+         COALESCE(SUM(request_count), 0) AS month
+       FROM engine_usage WHERE engine = ? AND day >= ?`
+    ).bind(today, engine, monthStart).first();
+
+    const usedToday = row?.today || 0;
+    const usedThisMonth = row?.month || 0;
+    const dailyLeft = budget.DAILY !== null ? Math.max(0, budget.DAILY - usedToday) : Infinity;
+    const monthlyLeft = budget.MONTHLY !== null ? Math.max(0, budget.MONTHLY - usedThisMonth) : Infinity;
+
+    return {
+      engine,
+      remaining: Math.min(dailyLeft, monthlyLeft),
+      limitedBy: dailyLeft <= monthlyLeft ? 'daily' : 'monthly',
+      usedToday,
+      usedThisMonth,
+      dailyLimit: budget.DAILY,
+      monthlyLimit: budget.MONTHLY
+    };
+  }
+
+  /**
+   * Lifetime totals across all users, from the search_engines table
+   */
+  async getEngineTotals(): Promise<Array<{ engine: string; name: string; requests: number; lastUsed: string | null }>> {
+    const { results } = await this.db.prepare(
+      `SELECT id, name, request_count, last_used FROM search_engines ORDER BY id ASC`
+    ).all();
+
+    return (results || []).map((row: any) => ({
+      engine: row.id,
+      name: row.name,
+      requests: row.request_count || 0,
+      lastUsed: row.last_used ?? null
+    }));
+  }
+}
@@ -0,0 +1,115 @@
+import { Favorite, IntermediarySearchResult } from '../types';
+import { debugLog, sha1 } from './queryUtils';
+
+interface FavoriteRow {
+  id: string;
+  user_id: string;
+  url: string;
+  query: string | null;
+  result: string;
+  created_at: string;
+}
+
+function toFavorite(row: FavoriteRow): Favorite {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    query: row.query ?? undefined,
+    result: JSON.parse(row.result) as IntermediarySearchResult,
+    createdAt: row.created_at
+  };
+}
+
+/**
+ * Checks that a client-supplied payload looks like an IntermediarySearchResult
+ * before we snapshot it into D1
+ */
+export function isValidResultSnapshot(value: any): value is IntermediarySearchResult {
+  if (!value || typeof value !== 'object') return false;
+  if (typeof value.id !== 'string' || typeof value.url !== 'string') return false;
+
+  try {
+    const url = new URL(value.url);
+    if (!['http:', 'https:'].includes(url.protocol)) return false;
+  } catch {
+    return false;
+  }
+
+  const optionalStrings = ['title', 'thumbnailUrl', 'sourceUrl', 'sourceDomain', 'description', 'mimeType', 'fileFormat', 'sourceEngine'];
+  if (optionalStrings.some(key => value[key] !== undefined && value[key] !== null && typeof value[key] !== 'string')) return false;
+
+  const optionalNumbers = ['width', 'height', 'fileSize'];
+  if (optionalNumbers.some(key => value[key] !== undefined && value[key] !== null && typeof value[key] !== 'number')) return false;
+
+  return true;
+}
+
+/**
+ * Stores starred wallpapers per user. Each favorite keeps a full snapshot of the
+ * search result so it survives expiry of aggregated_results and clearUserCache.
+ */
+export class FavoritesService {
+  db: any;
+
+  constructor(db: any) {
+    this.db = db;
+  }
+
+  async generateFavoriteId(userId: string, url: string): Promise<string> {
+    return await sha1(`${userId}|${url}`);
+  }
+
+  /**
+   * Adds (or refreshes) a favorite. Starring the same URL twice keeps a single row.
+   */
+  async addFavorite(userId: string, result: IntermediarySearchResult, query?: string): Promise<Favorite> {
+    const id = await this.generateFavoriteId(userId, result.url);
+    const createdAt = new Date().toISOString();
+
+    await this.db.prepare(
+      `INSERT INTO favorites (id, user_id, url, query, result, created_at)
+       VALUES (?, ?, ?, ?, ?, ?)
+       ON CONFLICT(id) DO UPDATE SET query = excluded.query, result = excluded.result`
+    ).bind(id, userId, result.url, query ?? null, JSON.stringify(result), createdAt).run();
+
+    debugLog('LOG_REQUESTS', '⭐ [FAVORITE ADDED]', { user: userId, id, url: result.url });
+
+    const favorite = await this.getFavorite(userId, id);
+    return favorite!;
+  }
+
+  async getFavorite(userId: string, id: string): Promise<Favorite | null> {
+    const row = await this.db.prepare(
+      `SELECT * FROM favorites WHERE user_id = ? AND id = ?`
+    ).bind(userId, id).first();
+    return row ? toFavorite(row as FavoriteRow) : null;
+  }
+
+  async listFavorites(userId: string, offset: number, limit: number): Promise<{ favorites: Favorite[]; total: number }> {
+    const { results } = await this.db.prepare(
+      `SELECT * FROM favorites WHERE user_id = ? ORDER BY created_at DESC, rowid DESC LIMIT ? OFFSET ?`
+    ).bind(userId, limit, offset).all();
+
+    const countRow = await this.db.prepare(
+      `SELECT COUNT(*) as count FROM favorites WHERE user_id = ?`
+    ).bind(userId).first();
+
+    return {
+      favorites: (results as FavoriteRow[]).map(toFavorite),
+      total: countRow?.count || 0
+    };
+  }
+
+  /**
+   * Removes a favorite. Returns false when it does not exist for this user.
+   */
+  async removeFavorite(userId: string, id: string): Promise<boolean> {
+    const info = await this.db.prepare(
+      `DELETE FROM favorites WHERE user_id = ? AND id = ?`
+    ).bind(userId, id).run();
+
+    const removed = (info.meta?.changes ?? info.changes ?? 0) > 0;
+    debugLog('LOG_REQUESTS', '🗑️ [FAVORITE REMOVED]', { user: userId, id, removed });
+    return removed;
+  }
+}
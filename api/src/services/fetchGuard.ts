@@ -0,0 +1,357 @@
+/**
+ * Guardrails for fetching arbitrary result URLs from the Worker. Engines hand
+ * us URLs chosen by third parties, so every server-side image fetch goes
+ * through guardedImageFetch(): only public http(s) hosts, a bounded number of
+ * re-checked redirects, image content types, a body size cap and a per-host
+ * concurrency limit. The checks are plain functions so each rejection path
+ * can be exercised without the network.
+ */
+
+import { SEARCH_ENGINE_CONFIG } from '../config/searchEngines';
+
+export type FetchRejection =
+  | 'invalid-url'
+  | 'blocked-address'
+  | 'too-many-redirects'
+  | 'host-busy'
+  | 'timeout'
+  | 'upstream-error'
+  | 'not-an-image'
+  | 'too-large';
+
+export type GuardedFetchResult =
+  | { ok: true; response: Response; url: URL }
+  | { ok: false; reason: FetchRejection; error: string };
+
+export interface GuardedFetchOptions {
+  headers?: Record<string, string>;
+  maxBytes?: number; // Body cap; omit when the caller reads a bounded prefix itself
+  timeoutMs: number; // Until the final response headers arrive
+  bodyTimeoutMs?: number; // Until the body has been read (default FETCH_GUARD.BODY_TIMEOUT_MS)
+  fetchImpl?: typeof fetch;
+}
+
+// Names that resolve to the local machine or private networks
+const BLOCKED_HOSTNAMES = [/^localhost$/, /\.localhost$/, /\.local$/, /\.internal$/, /\.home\.arpa$/];
+
+// IPv4 ranges that are not publicly routable: [network, prefix length]
+const BLOCKED_IPV4_RANGES: Array<[string, number]> = [
+  ['0.0.0.0', 8],       // "This" network
+  ['10.0.0.0', 8],      // Private
+  ['100.64.0.0', 10],   // Carrier-grade NAT
+  ['127.0.0.0', 8],     // Loopback
+  ['169.254.0.0', 16],  // Link-local (cloud metadata endpoints live here)
+  ['172.16.0.0', 12],   // Private
+  ['192.0.0.0', 24],    // IETF protocol assignments
+  ['192.168.0.0', 16],  // Private
+  ['198.18.0.0', 15],   // Benchmarking
+  ['224.0.0.0', 4],     // Multicast
+  ['240.0.0.0', 4]      // Reserved and broadcast
+];
+
+function parseIpv4(address: string): number | null {
+  const parts = address.split('.');
+  if (parts.length !== 4 || parts.some(part => !/^\d{1,3}$/.test(part) || Number(part) > 255)) return null;
+  return parts.reduce((value, part) => value * 256 + Number(part), 0);
+}
+
+export function isBlockedIpv4(address: string): boolean {
+  const value = parseIpv4(address);
+  if (value === null) return false;
+  return BLOCKED_IPV4_RANGES.some(([network, prefix]) => {
+    const size = 2 ** (32 - prefix);
+    const start = parseIpv4(network)!;
+    return value >= start && value < start + size;
+  });
+}
+
+/**
+ * The eight 16-bit groups of a bracket-less IPv6 address, or null. A trailing
+ * dotted quad (e.g. "::ffff:127.0.0.1") counts as the last two groups.
+ */
+function parseIpv6(address: string): number[] | null {
+  let text = address.toLowerCase();
+  const quad = text.match(/^(.*:)(\d+\.[\d.]+)$/);
+  if (quad) {
+    const value = parseIpv4(quad[2]);
+    if (value === null) return null;
+    text = `${quad[1]}${(value >>> 16).toString(16)}:${(value & 0xffff).toString(16)}`;
+  }
+
+  const halves = text.split('::');
+  if (halves.length > 2) return null;
+  const groupsOf = (half: string) => half === '' ? [] : half.split(':');
+  const head = groupsOf(halves[0]);
+  const tail = halves.length === 2 ? groupsOf(halves[1]) : [];
+  const missing = 8 - head.length - tail.length;
+  if (halves.length === 2 ? missing < 1 : missing !== 0) return null;
+
+  const groups = [...head, ...Array(missing).fill('0'), ...tail];
+  if (groups.some(group => !/^[0-9a-f]{1,4}$/.test(group))) return null;
+  return groups.map(group => parseInt(group, 16));
+}
+
+function ipv4FromWords(high: number, low: number): string {
+  return [high >> 8, high & 0xff, low >> 8, low & 0xff].join('.');
+}
+
+/**
+ * Loopback, unspecified, unique-local, link-local and multicast IPv6, plus
+ * addresses that embed a blocked IPv4 address: IPv4-compatible (::a.b.c.d),
+ * IPv4-mapped (::ffff:a.b.c.d), NAT64 (64:ff9b::/96) and 6to4 (2002::/16).
+ * Expects the bracket-less form (e.g. "::ffff:7f00:1").
+ */
+export function isBlockedIpv6(address: string): boolean {
+  const groups = parseIpv6(address);
+  if (!groups) return false;
+  const [first] = groups;
+  if ((first & 0xfe00) === 0xfc00 || (first & 0xffc0) === 0xfe80 || (first & 0xff00) === 0xff00) return true;
+
+  const prefix = groups.slice(0, 6);
+  const embedsIpv4 =
+    prefix.every(group => group === 0) ||                                     // IPv4-compatible, :: and ::1
+    (prefix.slice(0, 5).every(group => group === 0) && prefix[5] === 0xffff) || // IPv4-mapped
+    (first === 0x64 && groups[1] === 0xff9b && prefix.slice(2).every(group => group === 0)); // NAT64
+  if (embedsIpv4) return isBlockedIpv4(ipv4FromWords(groups[6], groups[7]));
+  if (first === 0x2002) return isBlockedIpv4(ipv4FromWords(groups[1], groups[2])); // 6to4
+  return false;
+}
+
+/**
+ * Reason the URL may not be fetched, or null. The WHATWG URL parser already
+ * normalises decimal/hex IPv4 forms such as http://2130706433/ to dotted quads.
+ * Names are not resolved, so this relies on the Workers runtime refusing to
+ * connect to private addresses behind public names.
+ */
+export function checkFetchUrl(url: URL): { reason: FetchRejection; error: string } | null {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    return { reason: 'invalid-url', error: `Scheme ${url.protocol} is not allowed` };
+  }
+  if (url.username || url.password) {
+    return { reason: 'invalid-url', error: 'URLs with credentials are not allowed' };
+  }
+
+  // "localhost." is the same host as "localhost"
+  const hostname = url.hostname.toLowerCase().replace(/\.+$/, '');
+  const ipv6 = hostname.startsWith('[') ? hostname.slice(1, -1) : null;
+  const blocked = ipv6 !== null
+    ? isBlockedIpv6(ipv6)
+    : isBlockedIpv4(hostname) || BLOCKED_HOSTNAMES.some(pattern => pattern.test(hostname));
+  return blocked ? { reason: 'blocked-address', error: `Host ${url.hostname} is not publicly reachable` } : null;
+}
+
+/**
+ * Raster image types only: SVG can carry scripts
+ */
+export function isAllowedImageType(contentType: string | null): boolean {
+  const mimeType = contentType?.split(';')[0].trim().toLowerCase();
+  return !!mimeType && mimeType.startsWith('image/') && mimeType !== 'image/svg+xml';
+}
+
+export function exceedsSizeCap(contentLength: string | null, maxBytes?: number): boolean {
+  return maxBytes !== undefined && !!contentLength && parseInt(contentLength, 10) > maxBytes;
+}
+
+// Requests in flight per host, and callers waiting for a slot
+const activeByHost = new Map<string, number>();
+const waitingByHost = new Map<string, Array<() => void>>();
+
+function releaseHostSlot(host: string): void {
+  const next = waitingByHost.get(host)?.shift();
+  if (next) {
+    next(); // The slot passes straight to the next waiter
+    return;
+  }
+  const active = (activeByHost.get(host) ?? 1) - 1;
+  if (active > 0) activeByHost.set(host, active);
+  else activeByHost.delete(host);
+}
+
+/**
+ * Waits up to waitMs for one of `limit` slots on the host. Resolves to a
+ * release function (safe to call more than once), or null on timeout.
+ */
+export function acquireHostSlot(host: string, limit: number, waitMs: number): Promise<(() => void) | null> {
+  let released = false;
+  const release = () => {
+    if (released) return;
+    released = true;
+    releaseHostSlot(host);
+  };
+
+  const active = activeByHost.get(host) ?? 0;
+  if (active < limit) {
+    activeByHost.set(host, active + 1);
+    return Promise.resolve(release);
+  }
+
+  return new Promise(resolve => {
+    const queue = waitingByHost.get(host) ?? [];
+    const grant = () => {
+      clearTimeout(timer);
+      resolve(release);
+    };
+    const timer = setTimeout(() => {
+      const index = queue.indexOf(grant);
+      if (index >= 0) queue.splice(index, 1);
+      if (queue.length === 0) waitingByHost.delete(host);
+      resolve(null);
+    }, waitMs);
+    queue.push(grant);
+    waitingByHost.set(host, queue);
+  });
+}
+
+/**
+ * Passes the body through, calling onDone once it ends, fails, is cancelled or
+ * runs past timeoutMs (so a host trickling bytes can't hold its slot). With
+ * maxBytes, the stream errors once more than that arrives (for hosts that
+ * don't announce Content-Length).
+ */
+function guardBody(body: ReadableStream<Uint8Array>, onDone: () => void, timeoutMs: number, maxBytes?: number): ReadableStream<Uint8Array> {
+  const reader = body.getReader();
+  let received = 0;
+  let finished = false;
+  let timer: ReturnType<typeof setTimeout>;
+  const finish = () => {
+    finished = true;
+    clearTimeout(timer);
+    onDone();
+  };
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      timer = setTimeout(() => {
+        if (finished) return;
+        finish();
+        controller.error(new Error('Image host timed out'));
+        reader.cancel().catch(() => {});
+      }, timeoutMs);
+    },
+    async pull(controller) {
+      try {
+        const { done, value } = await reader.read();
+        if (finished) return;
+        if (done) {
+          finish();
+          controller.close();
+          return;
+        }
+        received += value.length;
+        if (maxBytes !== undefined && received > maxBytes) {
+          finish();
+          await reader.cancel().catch(() => {});
+          controller.error(new Error(`Image larger than ${maxBytes} bytes`));
+          return;
+        }
+        controller.enqueue(value);
+      } catch (error) {
+        if (finished) return;
+        finish();
+        controller.error(error);
+      }
+    },
+    async cancel(reason) {
+      finish();
+      await reader.cancel(reason).catch(() => {});
+    }
+  });
+}
+
+async function discard(response: Response): Promise<void> {
+  await response.body?.cancel().catch(() => {});
+}
+
+/**
+ * Fetches an image URL with every guard applied. Each hop holds a slot on the
+ * host it talks to; on success the response body is wrapped so the final
+ * host's slot is held until the caller finishes reading (or cancels) it, or
+ * the body deadline passes.
+ */
+export async function guardedImageFetch(input: string | URL, options: GuardedFetchOptions): Promise<GuardedFetchResult> {
+  const { MAX_REDIRECTS, PER_HOST_CONCURRENCY, HOST_WAIT_MS, BODY_TIMEOUT_MS } = SEARCH_ENGINE_CONFIG.FETCH_GUARD;
+  const fetchImpl = options.fetchImpl ?? fetch;
+
+  let url: URL;
+  try {
+    url = new URL(input.toString());
+  } catch {
+    return { ok: false, reason: 'invalid-url', error: 'Not a valid URL' };
+  }
+  const rejected = checkFetchUrl(url);
+  if (rejected) return { ok: false, ...rejected };
+
+  let release = await acquireHostSlot(url.host, PER_HOST_CONCURRENCY, HOST_WAIT_MS);
+  if (!release) {
+    return { ok: false, reason: 'host-busy', error: `Too many concurrent requests to ${url.host}` };
+  }
+
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), options.timeoutMs);
+  let handedOff = false;
+
+  try {
+    let response: Response;
+    for (let redirects = 0; ; redirects++) {
+      response = await fetchImpl(url.toString(), {
+        headers: options.headers,
+        redirect: 'manual',
+        signal: controller.signal
+      });
+
+      const location = response.status >= 300 && response.status < 400 ? response.headers.get('Location') : null;
+      if (!location) break;
+      await discard(response);
+
+      if (redirects >= MAX_REDIRECTS) {
+        return { ok: false, reason: 'too-many-redirects', error: `More than ${MAX_REDIRECTS} redirects` };
+      }
+      try {
+        url = new URL(location, url);
+      } catch {
+        return { ok: false, reason: 'invalid-url', error: 'Redirect to an invalid URL' };
+      }
+      const redirectRejected = checkFetchUrl(url);
+      if (redirectRejected) return { ok: false, ...redirectRejected };
+
+      // The previous host is done with; the next hop waits for a slot on its own host
+      release();
+      const next = await acquireHostSlot(url.host, PER_HOST_CONCURRENCY, HOST_WAIT_MS);
+      if (!next) {
+        return { ok: false, reason: 'host-busy', error: `Too many concurrent requests to ${url.host}` };
+      }
+      release = next;
+    }
+
+    if (!response.ok || !response.body) {
+      await discard(response);
+      return { ok: false, reason: 'upstream-error', error: `Image host responded with ${response.status}` };
+    }
+
+    const contentType = response.headers.get('Content-Type');
+    if (!isAllowedImageType(contentType)) {
+      await discard(response);
+      return { ok: false, reason: 'not-an-image', error: `Not an image (${contentType || 'no content type'})` };
+    }
+    if (exceedsSizeCap(response.headers.get('Content-Length'), options.maxBytes)) {
+      await discard(response);
+      return { ok: false, reason: 'too-large', error: `Image larger than ${options.maxBytes} bytes` };
+    }
+
+    handedOff = true;
+    const body = guardBody(response.body, release, options.bodyTimeoutMs ?? BODY_TIMEOUT_MS, options.maxBytes);
+    return {
+      ok: true,
+      url,
+      response: new Response(body, { status: response.status, statusText: response.statusText, headers: response.headers })
+    };
+  } catch (error) {
+    const timedOut = error instanceof Error && error.name === 'AbortError';
+    return timedOut
+      ? { ok: false, reason: 'timeout', error: 'Image host timed out' }
+      : { ok: false, reason: 'upstream-error', error: 'Failed to fetch image' };
+  } finally {
+    clearTimeout(timer);
+    if (!handedOff) release();
+  }
+}
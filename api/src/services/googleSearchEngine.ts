@@ -6,21 +6,32 @@ import {
   IntermediaryPaginationInfo,
   GoogleSearchResponse,
   GoogleSearchResponseItem,
-  ApiResponse 
+  ApiResponse,
+  SafeSearchLevel,
+  ImageColor,
+  LicenseFilter,
+  RecencyFilter,
+  EngineCallRecorder
 } from '../types';
-import { craftMinimalWallpaperQuery, debugLog } from './queryUtils';
+import { craftMinimalWallpaperQuery, debugLog, licenseToRights } from './queryUtils';
+import { licenseFilterLabel } from './attribution';
 import { SEARCH_ENGINE_CONFIG } from '../config/searchEngines';
 
+// Custom Search dateRestrict values, the API's native counterpart of qdr:
+const GOOGLE_DATE_RESTRICT: Record<RecencyFilter, string> = { day: 'd1', week: 'w1', month: 'm1', year: 'y1' };
+
 export class GoogleSearchEngine implements SearchEngine {
   public readonly name = 'Google Custom Search';
   public readonly supportsTbs = SEARCH_ENGINE_CONFIG.TBS_SUPPORT.GOOGLE;
   private apiKey: string;
   private searchEngineId: string;
   private baseUrl = 'https://customsearch.googleapis.com/customsearch/v1';
+  private usage?: EngineCallRecorder;
 
-  constructor(apiKey: string, searchEngineId: string) {
+  constructor(apiKey: string, searchEngineId: string, usage?: EngineCallRecorder) {
     this.apiKey = apiKey;
     this.searchEngineId = searchEngineId;
+    this.usage = usage;
   }
 
   /**
@@ -32,11 +43,29 @@ export class GoogleSearchEngine implements SearchEngine {
     count?: number;
     start?: number;
     tbs?: string;
+    safeSearch?: SafeSearchLevel;
+    aspectRatio?: number;
+    targetResolution?: { width: number; height: number };
+    color?: ImageColor;
+    sites?: string[];
+    excludeSites?: string[];
+    excludeTerms?: string[];
+    license?: LicenseFilter;
+    since?: RecencyFilter;
   }): string {
     
     // Use the optimized minimal query approach
     const queryResult = craftMinimalWallpaperQuery(params.query, {
       orientation: params.orientation,
+      aspectRatio: params.aspectRatio,
+      targetResolution: params.targetResolution,
+      color: params.color,
+      sites: params.sites,
+      excludeSites: params.excludeSites,
+      excludeTerms: params.excludeTerms,
+      // The license filter goes out as the native rights parameter below
+      since: params.since,
+      tbs: params.tbs,
       useTbsParameters: true
     });
     
@@ -47,7 +76,8 @@ export class GoogleSearchEngine implements SearchEngine {
     url.searchParams.set('searchType', 'image');
     url.searchParams.set('num', String(params.count || 10));
     url.searchParams.set('start', String(params.start || 1));
-    url.searchParams.set('safe', 'off');
+    // Google only distinguishes "active" and "off"
+    url.searchParams.set('safe', params.safeSearch && params.safeSearch !== 'off' ? 'active' : 'off');
     url.searchParams.set('filter', '1');
     
     // Add Google's native parameters for precise control
@@ -58,11 +88,24 @@ export class GoogleSearchEngine implements SearchEngine {
     if (queryResult.excludeTerms) {
       url.searchParams.set('excludeTerms', queryResult.excludeTerms);
     }
+
+    if (params.since) {
+      url.searchParams.set('dateRestrict', GOOGLE_DATE_RESTRICT[params.since]);
+    }
+
+    const rights = params.license ? licenseToRights(params.license) : undefined;
+    if (rights) {
+      url.searchParams.set('rights', rights);
+    }
+
+    if (queryResult.siteSearch) {
+      url.searchParams.set('siteSearch', queryResult.siteSearch);
+      url.searchParams.set('siteSearchFilter', queryResult.siteSearchFilter || 'i');
+    }
     
-    // Use custom TBS if provided, otherwise use optimized TBS
-    const finalTbs = params.tbs || queryResult.tbs;
-    if (finalTbs) {
-      url.searchParams.set('tbs', finalTbs);
+    // Optimized TBS with any custom tokens merged in
+    if (queryResult.tbs) {
+      url.searchParams.set('tbs', queryResult.tbs);
     }
 
     return url.toString();
@@ -131,6 +174,7 @@ export class GoogleSearchEngine implements SearchEngine {
         fileSize: item.image.byteSize,
         mimeType: item.mime,
         fileFormat: item.fileFormat,
+        filterLicense: licenseFilterLabel(request.license),
         sourceEngine: 'google'
       };
     });
@@ -162,7 +206,7 @@ export class GoogleSearchEngine implements SearchEngine {
   /**
    * Single optimized search - no fallback complexity
    */
-  async search(request: SearchRequest): Promise<ApiResponse<IntermediarySearchResponse>> {
+  async search(request: SearchRequest, signal?: AbortSignal): Promise<ApiResponse<IntermediarySearchResponse>> {
     const startTime = Date.now();
 
     try {
@@ -181,7 +225,16 @@ export class GoogleSearchEngine implements SearchEngine {
         orientation: request.orientation,
         count: request.count,
         start: request.start,
-        tbs: request.tbs
+        tbs: request.tbs,
+        safeSearch: request.safeSearch,
+        aspectRatio: request.aspectRatio,
+        targetResolution: request.targetResolution,
+        color: request.color,
+        sites: request.sites,
+        excludeSites: request.excludeSites,
+        excludeTerms: request.excludeTerms,
+        license: request.license,
+        since: request.since
       });
 
       debugLog('LOG_QUERY_BUILDING', '🔍 [GOOGLE SEARCH]', {
@@ -194,12 +247,14 @@ export class GoogleSearchEngine implements SearchEngine {
       });
 
       // Single API call to Google
+      this.usage?.recordCall(SEARCH_ENGINE_CONFIG.AVAILABLE_ENGINES.GOOGLE);
       const response = await fetch(searchUrl, {
         method: 'GET',
         headers: {
           'Accept': 'application/json',
           'User-Agent': 'Galactic-Parallax-API/1.0'
-        }
+        },
+        signal
       });
 
       if (!response.ok) {
@@ -258,6 +313,7 @@ export class GoogleSearchEngine implements SearchEngine {
         count: 1 
       });
 
+      this.usage?.recordCall(SEARCH_ENGINE_CONFIG.AVAILABLE_ENGINES.GOOGLE);
       const response = await fetch(testUrl, {
         method: 'GET',
         headers: {
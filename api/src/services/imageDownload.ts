@@ -0,0 +1,147 @@
+/**
+ * Full-size downloads with meaningful file names, e.g.
+ * mountain-sunset_3840x2160_unsplash.jpg. The MIME type and dimensions come
+ * from the image header rather than the URL, whose extension is often missing
+ * or wrong (CDN URLs like photo-1234?auto=format).
+ */
+
+import { SEARCH_ENGINE_CONFIG } from '../config/searchEngines';
+import { parseImageHeader, ImageHeaderInfo } from './imageProbe';
+import { ImageRow } from './imagesService';
+
+export const IMAGE_DOWNLOAD_PATH = '/api/images/download';
+
+const MAX_NAME_LENGTH = 60;
+
+const MIME_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/avif': 'avif',
+  'image/bmp': 'bmp',
+  'image/tiff': 'tif',
+  'image/heic': 'heic'
+};
+
+// Second-level labels under which the site name is one label further left (example.co.uk)
+const SECOND_LEVEL_LABELS = new Set(['co', 'com', 'org', 'net', 'ac', 'gov', 'edu']);
+
+/**
+ * Lowercase ASCII words joined by dashes, at most `maxLength` characters
+ */
+export function slugify(text: string, maxLength: number = MAX_NAME_LENGTH): string {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .slice(0, maxLength)
+    .replace(/^-+|-+$/g, '');
+}
+
+/**
+ * Site name without subdomains or TLD: images.unsplash.com -> unsplash
+ */
+export function siteName(hostname: string): string {
+  const labels = hostname.toLowerCase().replace(/^www\./, '').split('.');
+  if (labels.length < 2) return labels[0];
+  const secondLevel = labels.length > 2 && SECOND_LEVEL_LABELS.has(labels[labels.length - 2]);
+  return labels[labels.length - (secondLevel ? 3 : 2)];
+}
+
+export function extensionForMimeType(mimeType: string): string {
+  const normalized = mimeType.split(';')[0].trim().toLowerCase();
+  return MIME_EXTENSIONS[normalized] || normalized.replace(/^image\//, '').replace(/[^a-z0-9]/g, '') || 'img';
+}
+
+function hostOf(rawUrl?: string | null): string | null {
+  try {
+    return rawUrl ? new URL(rawUrl).hostname : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * <query or title>_<width>x<height>_<site>.<ext>; parts that aren't known are
+ * left out
+ */
+export function downloadFilename(
+  image: Pick<ImageRow, 'url' | 'title' | 'sourceUrl' | 'sourceDomain' | 'width' | 'height'>,
+  mimeType: string,
+  query?: string
+): string {
+  const name = slugify(query || '') || slugify(image.title || '') || 'wallpaper';
+  const resolution = image.width && image.height ? `${image.width}x${image.height}` : null;
+  const host = image.sourceDomain || hostOf(image.sourceUrl) || hostOf(image.url);
+  const site = host ? slugify(siteName(host), 30) : '';
+  return [name, resolution, site].filter(Boolean).join('_') + '.' + extensionForMimeType(mimeType);
+}
+
+export function imageDownloadUrl(origin: string, imageId: string, query?: string): string {
+  const url = `${origin}${IMAGE_DOWNLOAD_PATH}/${encodeURIComponent(imageId)}`;
+  return query ? `${url}?q=${encodeURIComponent(query)}` : url;
+}
+
+export function contentDisposition(filename: string): string {
+  return `attachment; filename="${filename}"`;
+}
+
+/**
+ * Reads the start of an image body until its header parses (or
+ * PROBE.MAX_BYTES have arrived) and returns the header info with a stream that
+ * still yields the complete body
+ */
+export async function sniffImageBody(
+  body: ReadableStream<Uint8Array>
+): Promise<{ info: ImageHeaderInfo | null; body: ReadableStream<Uint8Array> }> {
+  const { MAX_BYTES } = SEARCH_ENGINE_CONFIG.PROBE;
+  const reader = body.getReader();
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+  let info: ImageHeaderInfo | null = null;
+  let finished = false;
+
+  while (length < MAX_BYTES && !info) {
+    const { done, value } = await reader.read();
+    if (done || !value) {
+      finished = true;
+      break;
+    }
+    chunks.push(value);
+    length += value.length;
+    const prefix = new Uint8Array(length);
+    let offset = 0;
+    for (const chunk of chunks) {
+      prefix.set(chunk, offset);
+      offset += chunk.length;
+    }
+    info = parseImageHeader(prefix);
+  }
+
+  const replay = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const buffered = chunks.shift();
+      if (buffered) {
+        controller.enqueue(buffered);
+        return;
+      }
+      if (finished) {
+        controller.close();
+        return;
+      }
+      try {
+        const { done, value } = await reader.read();
+        if (done) controller.close();
+        else controller.enqueue(value);
+      } catch (error) {
+        controller.error(error);
+      }
+    },
+    async cancel(reason) {
+      await reader.cancel(reason).catch(() => {});
+    }
+  });
+  return { info, body: replay };
+}
@@ -0,0 +1,175 @@
+/**
+ * Reads real image dimensions from the first bytes of a file. The parsers work
+ * on plain byte buffers so they can be exercised offline with fixtures;
+ * probeImage() adds the HTTP Range request on top.
+ */
+
+import { SEARCH_ENGINE_CONFIG } from '../config/searchEngines';
+import { guardedImageFetch } from './fetchGuard';
+
+export interface ImageHeaderInfo {
+  width: number;
+  height: number;
+  mimeType: string;
+  fileFormat: string;
+}
+
+export interface ImageProbeResult extends ImageHeaderInfo {
+  fileSize?: number;
+}
+
+function readUint16BE(bytes: Uint8Array, offset: number): number {
+  return (bytes[offset] << 8) | bytes[offset + 1];
+}
+
+function readUint16LE(bytes: Uint8Array, offset: number): number {
+  return bytes[offset] | (bytes[offset + 1] << 8);
+}
+
+function readUint24LE(bytes: Uint8Array, offset: number): number {
+  return bytes[offset] | (bytes[offset + 1] << 8) | (bytes[offset + 2] << 16);
+}
+
+function readUint32BE(bytes: Uint8Array, offset: number): number {
+  return ((bytes[offset] << 24) >>> 0) + ((bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3]);
+}
+
+function readAscii(bytes: Uint8Array, offset: number, length: number): string {
+  return String.fromCharCode(...bytes.subarray(offset, offset + length));
+}
+
+/**
+ * PNG: 8-byte signature, then the IHDR chunk with big-endian width and height
+ */
+export function parsePngHeader(bytes: Uint8Array): ImageHeaderInfo | null {
+  const signature = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+  if (bytes.length < 24 || signature.some((b, i) => bytes[i] !== b)) return null;
+  if (readAscii(bytes, 12, 4) !== 'IHDR') return null;
+  return { width: readUint32BE(bytes, 16), height: readUint32BE(bytes, 20), mimeType: 'image/png', fileFormat: 'png' };
+}
+
+/**
+ * GIF: "GIF87a"/"GIF89a" followed by the little-endian logical screen size
+ */
+export function parseGifHeader(bytes: Uint8Array): ImageHeaderInfo | null {
+  if (bytes.length < 10) return null;
+  const signature = readAscii(bytes, 0, 6);
+  if (signature !== 'GIF87a' && signature !== 'GIF89a') return null;
+  return { width: readUint16LE(bytes, 6), height: readUint16LE(bytes, 8), mimeType: 'image/gif', fileFormat: 'gif' };
+}
+
+/**
+ * WebP: RIFF container with a VP8 (lossy), VP8L (lossless) or VP8X (extended) first chunk
+ */
+export function parseWebpHeader(bytes: Uint8Array): ImageHeaderInfo | null {
+  if (bytes.length < 30 || readAscii(bytes, 0, 4) !== 'RIFF' || readAscii(bytes, 8, 4) !== 'WEBP') return null;
+  const info = (width: number, height: number): ImageHeaderInfo => ({ width, height, mimeType: 'image/webp', fileFormat: 'webp' });
+
+  switch (readAscii(bytes, 12, 4)) {
+    case 'VP8 ':
+      // Key frame start code 9d 01 2a, then 14-bit width and height
+      if (bytes[23] !== 0x9d || bytes[24] !== 0x01 || bytes[25] !== 0x2a) return null;
+      return info(readUint16LE(bytes, 26) & 0x3fff, readUint16LE(bytes, 28) & 0x3fff);
+    case 'VP8L': {
+      // Signature byte 0x2f, then 14-bit width - 1 and height - 1
+      if (bytes[20] !== 0x2f) return null;
+      const b0 = bytes[21], b1 = bytes[22], b2 = bytes[23], b3 = bytes[24];
+      return info(1 + (b0 | ((b1 & 0x3f) << 8)), 1 + ((b1 >> 6) | (b2 << 2) | ((b3 & 0x0f) << 10)));
+    }
+    case 'VP8X':
+      // 24-bit canvas width - 1 and height - 1
+      return info(1 + readUint24LE(bytes, 24), 1 + readUint24LE(bytes, 27));
+    default:
+      return null;
+  }
+}
+
+// Start-of-frame markers carry the frame size; C4 (DHT), C8 (JPG) and CC (DAC) do not
+const JPEG_SOF_MARKERS = new Set([0xc0, 0xc1, 0xc2, 0xc3, 0xc5, 0xc6, 0xc7, 0xc9, 0xca, 0xcb, 0xcd, 0xce, 0xcf]);
+
+/**
+ * JPEG: walks the marker segments (skipping APPn/EXIF data) until a SOF marker
+ */
+export function parseJpegHeader(bytes: Uint8Array): ImageHeaderInfo | null {
+  if (bytes.length < 4 || bytes[0] !== 0xff || bytes[1] !== 0xd8) return null;
+
+  let offset = 2;
+  while (offset + 3 < bytes.length) {
+    if (bytes[offset] !== 0xff) return null;
+    const marker = bytes[offset + 1];
+    if (marker === 0xff) {
+      offset++; // fill byte
+      continue;
+    }
+    if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd8)) {
+      offset += 2; // markers without a length
+      continue;
+    }
+    if (JPEG_SOF_MARKERS.has(marker)) {
+      if (offset + 9 > bytes.length) return null;
+      return { width: readUint16BE(bytes, offset + 7), height: readUint16BE(bytes, offset + 5), mimeType: 'image/jpeg', fileFormat: 'jpg' };
+    }
+    offset += 2 + readUint16BE(bytes, offset + 2);
+  }
+  return null;
+}
+
+/**
+ * Detects the format from the leading bytes and returns its dimensions, or
+ * null if the format is unknown or the buffer is too short
+ */
+export function parseImageHeader(bytes: Uint8Array): ImageHeaderInfo | null {
+  const info = parsePngHeader(bytes) || parseGifHeader(bytes) || parseWebpHeader(bytes) || parseJpegHeader(bytes);
+  return info && info.width > 0 && info.height > 0 ? info : null;
+}
+
+/**
+ * Total file size from "Content-Range: bytes 0-65535/1234567", or
+ * Content-Length when the server ignored the Range header
+ */
+export function parseFileSize(headers: Headers, status: number): number | undefined {
+  const total = headers.get('Content-Range')?.match(/\/(\d+)$/)?.[1];
+  if (total) return parseInt(total, 10);
+  const length = headers.get('Content-Length');
+  return status === 200 && length ? parseInt(length, 10) : undefined;
+}
+
+/**
+ * Fetches at most PROBE.MAX_BYTES of an image with a Range request (through
+ * the fetch guard) and parses its header. Returns null on any failure; probing
+ * is best-effort.
+ */
+export async function probeImage(url: string, fetchImpl?: typeof fetch): Promise<ImageProbeResult | null> {
+  const { MAX_BYTES, TIMEOUT_MS } = SEARCH_ENGINE_CONFIG.PROBE;
+
+  try {
+    const result = await guardedImageFetch(url, {
+      headers: { 'Range': `bytes=0-${MAX_BYTES - 1}`, 'Accept': 'image/*' },
+      timeoutMs: TIMEOUT_MS,
+      fetchImpl
+    });
+    if (!result.ok) return null;
+
+    const { response } = result;
+    const reader = response.body!.getReader();
+    const buffer = new Uint8Array(MAX_BYTES);
+    let length = 0;
+    let info: ImageHeaderInfo | null = null;
+
+    // Stop as soon as the header parses; servers that ignore Range would otherwise send the whole file
+    while (length < MAX_BYTES && !info) {
+      const { done, value } = await reader.read();
+      if (done || !value) break;
+      const chunk = value.subarray(0, MAX_BYTES - length);
+      buffer.set(chunk, length);
+      length += chunk.length;
+      info = parseImageHeader(buffer.subarray(0, length));
+    }
+    await reader.cancel().catch(() => {});
+
+    if (!info) return null;
+    return { ...info, fileSize: parseFileSize(response.headers, response.status) };
+  } catch {
+    return null;
+  }
+}
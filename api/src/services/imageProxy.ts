@@ -0,0 +1,112 @@
+/**
+ * Same-origin image proxy. Result images are streamed through the Worker so
+ * hotlink protection and referrer checks on third-party hosts don't break
+ * thumbnails in the UI.
+ */
+
+import { IntermediarySearchResult } from '../types';
+import { SEARCH_ENGINE_CONFIG } from '../config/searchEngines';
+import { guardedImageFetch, FetchRejection } from './fetchGuard';
+import { signUrl, UrlSigner } from './urlSigning';
+
+export const IMAGE_PROXY_PATH = '/api/images/proxy';
+
+type ProxyErrorStatus = 400 | 403 | 413 | 415 | 502 | 503 | 504;
+
+export type ProxyFetchResult =
+  | { ok: true; response: Response }
+  | { ok: false; status: ProxyErrorStatus; error: string };
+
+/**
+ * Absolute http(s) URL from the `u` parameter, or null
+ */
+export function parseProxyTarget(raw?: string): URL | null {
+  if (!raw) return null;
+  try {
+    const url = new URL(raw);
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Unsigned proxy URL; also the edge cache key, shared by all users
+ */
+export function proxiedImageUrl(origin: string, url: string): string {
+  return `${origin}${IMAGE_PROXY_PATH}?u=${encodeURIComponent(url)}`;
+}
+
+/**
+ * Adds signed proxiedUrl/proxiedThumbnailUrl links pointing at this Worker
+ */
+export async function withProxiedUrls(
+  result: IntermediarySearchResult,
+  origin: string,
+  signer: UrlSigner
+): Promise<IntermediarySearchResult> {
+  const [proxiedUrl, proxiedThumbnailUrl] = await Promise.all([
+    signUrl(proxiedImageUrl(origin, result.url), signer),
+    result.thumbnailUrl ? signUrl(proxiedImageUrl(origin, result.thumbnailUrl), signer) : undefined
+  ]);
+  return {
+    ...result,
+    proxiedUrl,
+    ...(proxiedThumbnailUrl && { proxiedThumbnailUrl })
+  };
+}
+
+// Status the proxy answers with for each fetch guard rejection
+const REJECTION_STATUS: Record<FetchRejection, ProxyErrorStatus> = {
+  'invalid-url': 400,
+  'blocked-address': 403,
+  'too-many-redirects': 502,
+  'host-busy': 503,
+  'timeout': 504,
+  'upstream-error': 502,
+  'not-an-image': 415,
+  'too-large': 413
+};
+
+/**
+ * Fetches an image from its host through the fetch guard, with the proxy's
+ * User-Agent, Referer and size cap. The response keeps the upstream headers.
+ */
+export async function fetchUpstreamImage(target: URL, fetchImpl?: typeof fetch): Promise<ProxyFetchResult> {
+  const { USER_AGENT, MAX_BYTES, TIMEOUT_MS } = SEARCH_ENGINE_CONFIG.PROXY;
+  const result = await guardedImageFetch(target, {
+    headers: {
+      'User-Agent': USER_AGENT,
+      'Accept': 'image/avif,image/webp,image/*;q=0.8',
+      // Hotlink checks usually compare the referrer with the image's own site
+      'Referer': `${target.origin}/`
+    },
+    maxBytes: MAX_BYTES,
+    timeoutMs: TIMEOUT_MS,
+    fetchImpl
+  });
+  return result.ok
+    ? { ok: true, response: result.response }
+    : { ok: false, status: REJECTION_STATUS[result.reason], error: result.error };
+}
+
+/**
+ * Fetches an image for the proxy and wraps it in a response with our own
+ * headers; only the content type and length are taken from the upstream host
+ */
+export async function fetchProxiedImage(target: URL, fetchImpl?: typeof fetch): Promise<ProxyFetchResult> {
+  const result = await fetchUpstreamImage(target, fetchImpl);
+  if (!result.ok) return result;
+
+  const { response } = result;
+  const headers = new Headers({
+    'Content-Type': response.headers.get('Content-Type')!,
+    'Cache-Control': `public, max-age=${SEARCH_ENGINE_CONFIG.PROXY.CACHE_TTL_SECONDS}`,
+    'X-Content-Type-Options': 'nosniff',
+    'Content-Security-Policy': "default-src 'none'"
+  });
+  const contentLength = response.headers.get('Content-Length');
+  if (contentLength) headers.set('Content-Length', contentLength);
+
+  return { ok: true, response: new Response(response.body, { status: 200, headers }) };
+}
@@ -0,0 +1,168 @@
+import { IntermediarySearchResult, EngineRank } from '../types';
+import { canonicalizeImageUrl, sha1 } from './queryUtils';
+
+/**
+ * Row shape of the global images table
+ */
+export interface ImageRow {
+  id: string;
+  canonical_url: string;
+  url: string;
+  title: string | null;
+  thumbnailUrl: string | null;
+  sourceUrl: string | null;
+  sourceDomain: string | null;
+  description: string | null;
+  width: number | null;
+  height: number | null;
+  fileSize: number | null;
+  mimeType: string | null;
+  fileFormat: string | null;
+  license: string | null;
+  author: string | null;
+  authorUrl: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+const IMAGE_COLUMNS = 18;
+// D1 allows 100 bound parameters per statement
+const IMAGES_PER_STATEMENT = Math.floor(100 / IMAGE_COLUMNS);
+
+// Known metadata is never overwritten by blanks; larger known dimensions win
+const UPSERT_IMAGES_SQL = (rows: number) => `INSERT INTO images (id, canonical_url, url, title, thumbnailUrl, sourceUrl, sourceDomain, description, width, height, fileSize, mimeType, fileFormat, license, author, authorUrl, created_at, updated_at)
+  VALUES ${Array(rows).fill(`(${Array(IMAGE_COLUMNS).fill('?').join(', ')})`).join(', ')}
+  ON CONFLICT(id) DO UPDATE SET
+    title = COALESCE(images.title, excluded.title),
+    thumbnailUrl = COALESCE(images.thumbnailUrl, excluded.thumbnailUrl),
+    sourceUrl = COALESCE(images.sourceUrl, excluded.sourceUrl),
+    sourceDomain = COALESCE(images.sourceDomain, excluded.sourceDomain),
+    description = COALESCE(images.description, excluded.description),
+    width = CASE WHEN COALESCE(excluded.width, 0) * COALESCE(excluded.height, 0) > COALESCE(images.width, 0) * COALESCE(images.height, 0) THEN excluded.width ELSE images.width END,
+    height = CASE WHEN COALESCE(excluded.width, 0) * COALESCE(excluded.height, 0) > COALESCE(images.width, 0) * COALESCE(images.height, 0) THEN excluded.height ELSE images.height END,
+    fileSize = COALESCE(images.fileSize, excluded.fileSize),
+    mimeType = COALESCE(images.mimeType, excluded.mimeType),
+    fileFormat = COALESCE(images.fileFormat, excluded.fileFormat),
+    license = COALESCE(images.license, excluded.license),
+    author = COALESCE(images.author, excluded.author),
+    authorUrl = COALESCE(images.authorUrl, excluded.authorUrl),
+    updated_at = excluded.updated_at`;
+
+/**
+ * aggregation_images.source_engines, or [] when it is missing or malformed
+ */
+function parseEngineRanks(raw: string | null): EngineRank[] {
+  try {
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+function nullIfEmpty(v: any) { return v === undefined || v === '' || v === 0 ? null : v; }
+
+/**
+ * Content-addressed store of every image seen by any search. The id is the
+ * SHA-1 of the canonical URL, so an image is stored once and enrichment
+ * (dimensions, titles) is shared by all aggregations that reference it.
+ */
+export class ImagesService {
+  db: any;
+
+  constructor(db: any) {
+    this.db = db;
+  }
+
+  static async imageIdFor(url: string): Promise<string> {
+    return await sha1(canonicalizeImageUrl(url));
+  }
+
+  /**
+   * Upsert statements for a list of images, for use in a db.batch() together
+   * with the rows that reference them
+   */
+  prepareUpserts(images: Array<{ id: string; item: IntermediarySearchResult }>, now: string): any[] {
+    const statements: any[] = [];
+    for (let i = 0; i < images.length; i += IMAGES_PER_STATEMENT) {
+      const chunk = images.slice(i, i + IMAGES_PER_STATEMENT);
+      const params = chunk.flatMap(({ id, item }) => [
+        id,
+        canonicalizeImageUrl(item.url),
+        item.url,
+        nullIfEmpty(item.title),
+        nullIfEmpty(item.thumbnailUrl),
+        nullIfEmpty(item.sourceUrl),
+        nullIfEmpty(item.sourceDomain),
+        nullIfEmpty(item.description),
+        nullIfEmpty(item.width),
+        nullIfEmpty(item.height),
+        nullIfEmpty(item.fileSize),
+        nullIfEmpty(item.mimeType),
+        nullIfEmpty(item.fileFormat),
+        nullIfEmpty(item.license),
+        nullIfEmpty(item.author),
+        nullIfEmpty(item.authorUrl),
+        now,
+        now
+      ]);
+      statements.push(this.db.prepare(UPSERT_IMAGES_SQL(chunk.length)).bind(...params));
+    }
+    return statements;
+  }
+
+  /**
+   * Dimensions already learned for these images (by an earlier search or probe)
+   */
+  async getKnownDimensions(imageIds: string[]): Promise<Map<string, Pick<ImageRow, 'width' | 'height' | 'mimeType' | 'fileFormat' | 'fileSize'>>> {
+    const known = new Map<string, Pick<ImageRow, 'width' | 'height' | 'mimeType' | 'fileFormat' | 'fileSize'>>();
+    for (let i = 0; i < imageIds.length; i += 100) {
+      const chunk = imageIds.slice(i, i + 100);
+      const { results } = await this.db.prepare(
+        `SELECT id, width, height, mimeType, fileFormat, fileSize FROM images
+         WHERE id IN (${chunk.map(() => '?').join(', ')}) AND width > 0 AND height > 0`
+      ).bind(...chunk).all();
+      for (const row of results || []) {
+        known.set(row.id, { width: row.width, height: row.height, mimeType: row.mimeType, fileFormat: row.fileFormat, fileSize: row.fileSize });
+      }
+    }
+    return known;
+  }
+
+  async getImage(imageId: string): Promise<ImageRow | null> {
+    return await this.db.prepare(`SELECT * FROM images WHERE id = ?`).bind(imageId).first();
+  }
+
+  /**
+   * Images by id with every engine that has returned them in any aggregation,
+   * in the order of imageIds; unknown ids are left out
+   */
+  async getImagesWithEngines(imageIds: string[]): Promise<Array<ImageRow & { engines: string[] }>> {
+    const rows = new Map<string, ImageRow & { engines: Set<string> }>();
+    for (let i = 0; i < imageIds.length; i += 100) {
+      const chunk = imageIds.slice(i, i + 100);
+      const placeholders = chunk.map(() => '?').join(', ');
+      const [images, links] = await this.db.batch([
+        this.db.prepare(`SELECT * FROM images WHERE id IN (${placeholders})`).bind(...chunk),
+        this.db.prepare(
+          `SELECT image_id, source_engine, source_engines FROM aggregation_images WHERE image_id IN (${placeholders})`
+        ).bind(...chunk)
+      ]);
+      for (const row of (images.results || []) as ImageRow[]) {
+        rows.set(row.id, { ...row, engines: new Set() });
+      }
+      for (const link of links.results || []) {
+        const engines = rows.get(link.image_id)?.engines;
+        if (!engines) continue;
+        if (link.source_engine) engines.add(link.source_engine);
+        for (const rank of parseEngineRanks(link.source_engines)) {
+          engines.add(rank.engine);
+        }
+      }
+    }
+    return imageIds
+      .map(id => rows.get(id))
+      .filter((row): row is ImageRow & { engines: Set<string> } => !!row)
+      .map(row => ({ ...row, engines: Array.from(row.engines) }));
+  }
+}
@@ -0,0 +1,161 @@
+import { UserPreferences, SafeSearchLevel } from '../types';
+import { SEARCH_ENGINE_CONFIG } from '../config/searchEngines';
+import { debugLog } from './queryUtils';
+
+export const DEFAULT_PREFERENCES: UserPreferences = {
+  defaultOrientation: undefined,
+  defaultPageSize: 10,
+  preferredEngines: [],
+  minResolution: undefined,
+  blockedDomains: [],
+  safeSearch: 'off'
+};
+
+const MAX_BLOCKED_DOMAINS = 200;
+const SAFE_SEARCH_LEVELS: SafeSearchLevel[] = ['off', 'moderate', 'strict'];
+// Preferred engines steer aggregated search, so only engines it can query are accepted
+const KNOWN_ENGINES: string[] = [...SEARCH_ENGINE_CONFIG.AGGREGATED_ENGINES];
+
+/**
+ * Lowercases a domain and strips scheme, path and a leading "www."
+ */
+export function normalizeDomain(domain: string): string {
+  return domain.trim().toLowerCase()
+    .replace(/^[a-z]+:\/\//, '')
+    .replace(/\/.*$/, '')
+    .replace(/^www\./, '');
+}
+
+/**
+ * Validates a preferences payload. With partial = true, missing fields are allowed
+ * (PATCH); otherwise missing fields fall back to defaults (PUT).
+ */
+export function validatePreferences(
+  input: any,
+  partial: boolean
+): { preferences?: Partial<UserPreferences>; errors: string[] } {
+  const errors: string[] = [];
+
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return { errors: ['Preferences must be a JSON object'] };
+  }
+
+  const allowedKeys = Object.keys(DEFAULT_PREFERENCES);
+  const unknownKeys = Object.keys(input).filter(key => !allowedKeys.includes(key));
+  if (unknownKeys.length > 0) {
+    errors.push(`Unknown preference(s): ${unknownKeys.join(', ')}`);
+  }
+
+  const preferences: Partial<UserPreferences> = partial ? {} : { ...DEFAULT_PREFERENCES };
+
+  if (input.defaultOrientation !== undefined) {
+    if (input.defaultOrientation === null) {
+      preferences.defaultOrientation = undefined;
+    } else if (['landscape', 'portrait'].includes(input.defaultOrientation)) {
+      preferences.defaultOrientation = input.defaultOrientation;
+    } else {
+      errors.push('defaultOrientation must be "landscape", "portrait" or null');
+    }
+  }
+
+  if (input.defaultPageSize !== undefined) {
+    if (Number.isInteger(input.defaultPageSize) && input.defaultPageSize >= 1 && input.defaultPageSize <= 100) {
+      preferences.defaultPageSize = input.defaultPageSize;
+    } else {
+      errors.push('defaultPageSize must be an integer between 1 and 100');
+    }
+  }
+
+  if (input.preferredEngines !== undefined) {
+    if (Array.isArray(input.preferredEngines) && input.preferredEngines.every((engine: any) => KNOWN_ENGINES.includes(engine))) {
+      preferences.preferredEngines = Array.from(new Set<string>(input.preferredEngines));
+    } else {
+      errors.push(`preferredEngines must be an array of: ${KNOWN_ENGINES.join(', ')}`);
+    }
+  }
+
+  if (input.minResolution !== undefined) {
+    const res = input.minResolution;
+    if (res === null) {
+      preferences.minResolution = undefined;
+    } else if (
+      res && typeof res === 'object' &&
+      Number.isInteger(res.width) && res.width >= 0 &&
+      Number.isInteger(res.height) && res.height >= 0
+    ) {
+      preferences.minResolution = { width: res.width, height: res.height };
+    } else {
+      errors.push('minResolution must be { width, height } with non-negative integers, or null');
+    }
+  }
+
+  if (input.blockedDomains !== undefined) {
+    if (
+      Array.isArray(input.blockedDomains) &&
+      input.blockedDomains.length <= MAX_BLOCKED_DOMAINS &&
+      input.blockedDomains.every((domain: any) => typeof domain === 'string' && normalizeDomain(domain).length > 0)
+    ) {
+      preferences.blockedDomains = Array.from(new Set<string>(input.blockedDomains.map(normalizeDomain)));
+    } else {
+      errors.push(`blockedDomains must be an array of up to ${MAX_BLOCKED_DOMAINS} domain names`);
+    }
+  }
+
+  if (input.safeSearch !== undefined) {
+    if (SAFE_SEARCH_LEVELS.includes(input.safeSearch)) {
+      preferences.safeSearch = input.safeSearch;
+    } else {
+      errors.push(`safeSearch must be one of: ${SAFE_SEARCH_LEVELS.join(', ')}`);
+    }
+  }
+
+  return errors.length > 0 ? { errors } : { preferences, errors };
+}
+
+/**
+ * Reads and writes the user_preferences table (one JSON document per user)
+ */
+export class PreferencesService {
+  db: any;
+
+  constructor(db: any) {
+    this.db = db;
+  }
+
+  /**
+   * Returns stored preferences merged over the defaults
+   */
+  async getPreferences(userId: string): Promise<UserPreferences> {
+    const row = await this.db.prepare(
+      `SELECT preferences FROM user_preferences WHERE user_id = ?`
+    ).bind(userId).first();
+
+    if (!row) {
+      return { ...DEFAULT_PREFERENCES };
+    }
+
+    try {
+      const stored: UserPreferences = { ...DEFAULT_PREFERENCES, ...JSON.parse(row.preferences) };
+      // Engines saved before validation was tightened would leave searches with no engine
+      return { ...stored, preferredEngines: (stored.preferredEngines || []).filter(engine => KNOWN_ENGINES.includes(engine)) };
+    } catch {
+      console.error(`Invalid stored preferences for user ${userId}, using defaults`);
+      return { ...DEFAULT_PREFERENCES };
+    }
+  }
+
+  async savePreferences(userId: string, preferences: UserPreferences): Promise<UserPreferences> {
+    await this.db.prepare(
+      `INSERT INTO user_preferences (user_id, preferences, updated_at) VALUES (?, ?, ?)
+       ON CONFLICT(user_id) DO UPDATE SET preferences = excluded.preferences, updated_at = excluded.updated_at`
+    ).bind(userId, JSON.stringify(preferences), new Date().toISOString()).run();
+
+    debugLog('LOG_REQUESTS', '⚙️ [PREFERENCES SAVED]', { user: userId, preferences });
+    return preferences;
+  }
+
+  async updatePreferences(userId: string, changes: Partial<UserPreferences>): Promise<UserPreferences> {
+    const current = await this.getPreferences(userId);
+    return await this.savePreferences(userId, { ...current, ...changes });
+  }
+}
@@ -4,6 +4,7 @@
  */
 
 import { SEARCH_ENGINE_CONFIG } from '../config/searchEngines';
+import { IntermediaryPaginationInfo, ImageColor, LicenseFilter, RecencyFilter, ParsedSearchQuery } from '../types';
 
 /**
  * Debug logging utility that respects configuration settings
@@ -21,14 +22,70 @@ export function debugLog(category: keyof typeof SEARCH_ENGINE_CONFIG.DEBUG, mess
   }
 }
 
+/**
+ * SHA-1 hex digest, used for deterministic row ids (aggregations, favorites)
+ */
+export async function sha1(input: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const data = encoder.encode(input);
+  const hashBuffer = await crypto.subtle.digest('SHA-1', data);
+  return Array.from(new Uint8Array(hashBuffer)).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Builds pagination info from a 1-based start index, matching the search response shape
+ */
+export function buildPaginationInfo(start: number, count: number, totalResults: number): IntermediaryPaginationInfo {
+  const totalPages = count > 0 ? Math.ceil(totalResults / count) : 1;
+  const currentPage = count > 0 ? Math.ceil(start / count) : 1;
+  return {
+    currentPage,
+    totalResults,
+    resultsPerPage: count,
+    totalPages,
+    hasNextPage: currentPage < totalPages,
+    hasPreviousPage: currentPage > 1,
+    nextStartIndex: currentPage < totalPages ? start + count : undefined,
+    previousStartIndex: currentPage > 1 ? Math.max(1, start - count) : undefined
+  };
+}
+
+/**
+ * Races a promise against a timer. Rejections pass through; on timeout the
+ * promise is left running and { timedOut: true } is returned.
+ */
+export async function withTimeout<T>(promise: Promise<T>, ms: number): Promise<{ value?: T; timedOut: boolean }> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<{ timedOut: true }>(resolve => {
+    timer = setTimeout(() => resolve({ timedOut: true }), ms);
+  });
+  try {
+    return await Promise.race([promise.then(value => ({ value, timedOut: false })), timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
 export interface QueryCraftingOptions {
   orientation?: 'landscape' | 'portrait';
+  aspectRatio?: number; // Exact target ratio (width / height), overrides orientation
+  targetResolution?: { width: number; height: number };
+  color?: ImageColor;
+  sites?: string[];
+  excludeSites?: string[];
+  excludeTerms?: string[];
+  license?: LicenseFilter;
+  since?: RecencyFilter;
+  tbs?: string; // User TBS, merged over the generated defaults (validate with parseTbs first)
   includeQualityTerms?: boolean;
   includeOrientationTerms?: boolean;
   useTbsParameters?: boolean;
   engine?: string;
 }
 
+// Search settings the default TBS is generated from
+export type TbsDefaultsOptions = Pick<QueryCraftingOptions, 'orientation' | 'aspectRatio' | 'targetResolution' | 'color' | 'license' | 'since'>;
+
 export interface TbsParameters {
   imageSize?: 'isz:l' | 'isz:m' | 'isz:i' | 'isz:lt' | 'isz:mt';
   imageSizeLimit?: 'islt:2mp' | 'islt:4mp' | 'islt:6mp' | 'islt:8mp' | 'islt:10mp' | 'islt:12mp' | 'islt:15mp' | 'islt:20mp' | 'islt:40mp' | 'islt:70mp';
@@ -36,42 +93,383 @@ export interface TbsParameters {
   aspectRatio?: 'imgar:t' | 'imgar:s' | 'imgar:w' | 'imgar:xw' | 'imgar:xxw';
   imageColor?: 'ic:color' | 'ic:gray' | 'ic:mono' | 'ic:trans';
   imageColorFilter?: 'ic:specific,isc:black' | 'ic:specific,isc:blue' | 'ic:specific,isc:brown' | 'ic:specific,isc:gray' | 'ic:specific,isc:green' | 'ic:specific,isc:orange' | 'ic:specific,isc:pink' | 'ic:specific,isc:purple' | 'ic:specific,isc:red' | 'ic:specific,isc:teal' | 'ic:specific,isc:white' | 'ic:specific,isc:yellow';
-  usage?: 'sur:fmc' | 'sur:fc' | 'sur:fm' | 'sur:f';
+  usage?: 'il:cl' | 'il:ol' | 'sur:fmc' | 'sur:fc' | 'sur:fm' | 'sur:f';
   time?: 'qdr:d' | 'qdr:w' | 'qdr:m' | 'qdr:y';
 }
 
 /**
- * Generates TBS parameters for Google Image Search optimization
+ * Parses "5120x1440" (or "5120×1440") into a resolution
  */
-export function generateTbsParameters(
-  orientation?: 'landscape' | 'portrait',
-  customTbs?: Partial<TbsParameters>
-): string {
-  const tbsParams: string[] = [];
+export function parseResolution(value: string): { width: number; height: number } | null {
+  const match = value.trim().match(/^(\d{2,5})\s*[x×]\s*(\d{2,5})$/i);
+  if (!match) return null;
+  const width = parseInt(match[1], 10);
+  const height = parseInt(match[2], 10);
+  return width > 0 && height > 0 ? { width, height } : null;
+}
+
+/**
+ * Parses "32:9", "32/9" or "3.56" into a width / height ratio
+ */
+export function parseAspectRatio(value: string): number | null {
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*[:/]\s*(\d+(?:\.\d+)?)$/);
+  const ratio = match ? parseFloat(match[1]) / parseFloat(match[2]) : Number(value.trim());
+  return Number.isFinite(ratio) && ratio > 0 && ratio <= 10 ? ratio : null;
+}
 
-  // High-quality image parameters for wallpapers
-  tbsParams.push('isz:lt'); // Large or larger images
-  tbsParams.push('islt:2mp'); // 2MP or higher resolution
-  tbsParams.push('itp:photo'); // Photo type only (excludes clipart, drawings)
-  tbsParams.push('ic:color'); // Color images only (excludes grayscale)
+export const IMAGE_COLORS: readonly ImageColor[] = [
+  'black', 'blue', 'brown', 'green', 'orange', 'pink', 'purple', 'red', 'teal', 'white', 'yellow', 'gray', 'mono'
+];
 
-  // Orientation-based aspect ratio
-  if (orientation === 'portrait') {
-    tbsParams.push('imgar:t'); // Tall/portrait aspect ratio
-  } else if (orientation === 'landscape') {
-    tbsParams.push('imgar:w'); // Wide/landscape aspect ratio
+/**
+ * Parses a color filter name ("blue", "grey", "Mono"), or null if unknown
+ */
+export function parseImageColor(value: string): ImageColor | null {
+  const color = value.trim().toLowerCase().replace(/^grey$/, 'gray');
+  return (IMAGE_COLORS as readonly string[]).includes(color) ? color as ImageColor : null;
+}
+
+/**
+ * Stable key fragment for a search's target size/ratio/color ('' when none),
+ * for cache keys and aggregation ids
+ */
+export function imageTargetKey(target: { aspectRatio?: number; targetResolution?: { width: number; height: number }; color?: ImageColor }): string {
+  const parts: string[] = [];
+  if (target.targetResolution) parts.push(`res:${target.targetResolution.width}x${target.targetResolution.height}`);
+  if (target.aspectRatio) parts.push(`ratio:${target.aspectRatio.toFixed(3)}`);
+  if (target.color) parts.push(`color:${target.color}`);
+  return parts.join('|');
+}
+
+/**
+ * imageTargetKey plus the site/exclude operators: everything besides query and
+ * orientation that changes what the engines return
+ */
+export function searchVariantKey(request: {
+  aspectRatio?: number;
+  targetResolution?: { width: number; height: number };
+  color?: ImageColor;
+  sites?: string[];
+  excludeSites?: string[];
+  excludeTerms?: string[];
+  license?: LicenseFilter;
+  since?: RecencyFilter;
+}): string {
+  const parts: string[] = [];
+  const target = imageTargetKey(request);
+  if (target) parts.push(target);
+  if (request.sites?.length) parts.push(`site:${request.sites.slice().sort().join(',')}`);
+  if (request.excludeSites?.length) parts.push(`-site:${request.excludeSites.slice().sort().join(',')}`);
+  if (request.excludeTerms?.length) parts.push(`exclude:${request.excludeTerms.map(t => t.toLowerCase()).sort().join(',')}`);
+  if (request.license && request.license !== 'any') parts.push(`license:${request.license}`);
+  if (request.since) parts.push(`since:${request.since}`);
+  return parts.join('|');
+}
+
+const SEARCH_OPERATORS = new Set(['site', 'color', 'res', 'ratio', 'engine']);
+
+// -term, key:value, key:"quoted value", "phrase" (closing quote optional) or a bare word
+const QUERY_TOKEN_PATTERN = /(-?)(?:([a-z]+):)?(?:"([^"]*)"?|(\S+))/gi;
+
+function normalizeSite(value: string): string {
+  return value.trim().toLowerCase().replace(/^https?:\/\//, '').replace(/^www\./, '').replace(/\/+$/, '');
+}
+
+/**
+ * Splits a query box string such as
+ *   cyberpunk city site:wallhaven.cc -anime color:purple "neon sign" 4k
+ * into free text and operators. Unknown key:value tokens (URLs, "c:drive")
+ * stay part of the text. Returns every invalid operator value in errors.
+ */
+export function parseSearchQuery(raw: string): { parsed: ParsedSearchQuery; errors: string[] } {
+  const parsed: ParsedSearchQuery = {
+    text: '', operators: [], phrases: [], sites: [], excludeSites: [], excludeTerms: [], engines: []
+  };
+  const errors: string[] = [];
+  const textParts: string[] = [];
+  const engineKeys = Object.values(SEARCH_ENGINE_CONFIG.AVAILABLE_ENGINES) as string[];
+
+  for (const match of raw.matchAll(QUERY_TOKEN_PATTERN)) {
+    const [token, negated, rawKey, quoted, bare] = match;
+    const key = rawKey?.toLowerCase();
+    const value = (quoted ?? bare ?? '').trim();
+
+    if (!key || !SEARCH_OPERATORS.has(key)) {
+      const term = rawKey ? `${rawKey}:${value}` : value;
+      if (!term) continue;
+      if (negated) {
+        parsed.excludeTerms.push(term);
+        parsed.operators.push(token);
+      } else if (quoted !== undefined) {
+        parsed.phrases.push(term);
+        parsed.operators.push(token);
+        textParts.push(`"${term}"`);
+      } else {
+        textParts.push(term);
+      }
+      continue;
+    }
+
+    parsed.operators.push(token);
+    if (negated && key !== 'site') {
+      errors.push(`"${key}:" cannot be negated`);
+      continue;
+    }
+
+    switch (key) {
+      case 'site': {
+        const site = normalizeSite(value);
+        if (!site) errors.push('site: needs a domain, e.g. site:wallhaven.cc');
+        else (negated ? parsed.excludeSites : parsed.sites).push(site);
+        break;
+      }
+      case 'color': {
+        const color = parseImageColor(value);
+        if (color) parsed.color = color;
+        else errors.push(`Unknown color "${value}"; use one of: ${IMAGE_COLORS.join(', ')}`);
+        break;
+      }
+      case 'res': {
+        const resolution = parseResolution(value);
+        if (resolution) parsed.targetResolution = resolution;
+        else errors.push(`res: must look like res:5120x1440, got "${value}"`);
+        break;
+      }
+      case 'ratio': {
+        const ratio = parseAspectRatio(value);
+        if (ratio) parsed.aspectRatio = ratio;
+        else errors.push(`ratio: must look like ratio:32:9 or ratio:3.56, got "${value}"`);
+        break;
+      }
+      case 'engine': {
+        const engine = value.toLowerCase();
+        if (!engineKeys.includes(engine)) errors.push(`Unknown engine "${value}"; use one of: ${engineKeys.join(', ')}`);
+        else if (!parsed.engines.includes(engine)) parsed.engines.push(engine);
+        break;
+      }
+    }
   }
 
-  // Apply custom TBS parameters if provided
-  if (customTbs) {
-    Object.values(customTbs).forEach(param => {
-      if (param && typeof param === 'string') {
-        tbsParams.push(param);
+  parsed.text = textParts.join(' ');
+  if (!parsed.text) errors.push('The query needs at least one search term besides operators');
+  parsed.sites = Array.from(new Set(parsed.sites));
+  parsed.excludeSites = Array.from(new Set(parsed.excludeSites));
+  return { parsed, errors };
+}
+
+const quoteTerm = (term: string): string => /\s/.test(term) ? `"${term}"` : term;
+
+/**
+ * site:, -site: and -term operators in the inline syntax Brave, Serper and
+ * Zenserp understand; several sites become an OR group
+ */
+export function renderInlineOperators(operators: { sites?: string[]; excludeSites?: string[]; excludeTerms?: string[] }): string {
+  const parts: string[] = [];
+  const sites = operators.sites || [];
+  if (sites.length === 1) parts.push(`site:${sites[0]}`);
+  if (sites.length > 1) parts.push(`(${sites.map(site => `site:${site}`).join(' OR ')})`);
+  (operators.excludeSites || []).forEach(site => parts.push(`-site:${site}`));
+  (operators.excludeTerms || []).forEach(term => parts.push(`-${quoteTerm(term)}`));
+  return parts.join(' ');
+}
+
+/**
+ * Google color filter: grayscale and black-and-white are color types, the
+ * rest are "specific color" filters
+ */
+export function colorToTbs(color: ImageColor): NonNullable<TbsParameters['imageColor'] | TbsParameters['imageColorFilter']> {
+  if (color === 'gray') return 'ic:gray';
+  if (color === 'mono') return 'ic:mono';
+  return `ic:specific,isc:${color}`;
+}
+
+const COLOR_QUERY_TERMS: Partial<Record<ImageColor, string>> = {
+  gray: '(grayscale OR gray)',
+  mono: '("black and white" OR monochrome)'
+};
+
+/**
+ * Query term standing in for the color filter on engines without TBS
+ */
+export function colorQueryTerm(color: ImageColor): string {
+  return COLOR_QUERY_TERMS[color] ?? color;
+}
+
+/**
+ * Google Images usage-rights filter for a license choice ('any' adds none):
+ * il:cl is "Creative Commons licenses", il:ol "Commercial & other licenses"
+ */
+export function licenseToTbs(license: LicenseFilter): TbsParameters['usage'] {
+  if (license === 'creative-commons') return 'il:cl';
+  if (license === 'commercial') return 'il:ol';
+  return undefined;
+}
+
+// Custom Search API licenses; commercial use excludes the non-commercial ones
+const LICENSE_RIGHTS: Record<Exclude<LicenseFilter, 'any'>, string[]> = {
+  'creative-commons': ['cc_publicdomain', 'cc_attribute', 'cc_sharealike', 'cc_noncommercial', 'cc_nonderived'],
+  'commercial': ['cc_publicdomain', 'cc_attribute', 'cc_sharealike', 'cc_nonderived']
+};
+
+/**
+ * Custom Search API `rights` value for a license choice ('any' adds none)
+ */
+export function licenseToRights(license: LicenseFilter): string | undefined {
+  return license === 'any' ? undefined : `(${LICENSE_RIGHTS[license].join('|')})`;
+}
+
+export const RECENCY_FILTERS: readonly RecencyFilter[] = ['day', 'week', 'month', 'year'];
+
+/**
+ * Google "past day/week/month/year" filter
+ */
+export function sinceToTbs(since: RecencyFilter): NonNullable<TbsParameters['time']> {
+  return `qdr:${since.charAt(0)}` as NonNullable<TbsParameters['time']>;
+}
+
+/**
+ * Closest Google aspect-ratio bucket: tall, square, wide or panoramic
+ */
+export function aspectRatioToTbs(ratio: number): TbsParameters['aspectRatio'] {
+  if (ratio < 0.8) return 'imgar:t';
+  if (ratio < 1.25) return 'imgar:s';
+  if (ratio < 2) return 'imgar:w';
+  return 'imgar:xw';
+}
+
+const TBS_MEGAPIXEL_STEPS = [2, 4, 6, 8, 10, 12, 15, 20, 40, 70];
+
+/**
+ * Largest "larger than N MP" filter that a target resolution still satisfies
+ */
+export function resolutionToTbs(resolution: { width: number; height: number }): TbsParameters['imageSizeLimit'] {
+  const megapixels = (resolution.width * resolution.height) / 1_000_000;
+  const step = TBS_MEGAPIXEL_STEPS.filter(mp => mp <= megapixels).pop() || 2;
+  return `islt:${step}mp` as TbsParameters['imageSizeLimit'];
+}
+
+// Accepted values per TBS key, mirroring the TbsParameters unions
+const TBS_FIELDS: Array<{ key: string; field: Exclude<keyof TbsParameters, 'imageColorFilter'>; values: string[] }> = [
+  { key: 'isz', field: 'imageSize', values: ['l', 'm', 'i', 'lt', 'mt'] },
+  { key: 'islt', field: 'imageSizeLimit', values: TBS_MEGAPIXEL_STEPS.map(mp => `${mp}mp`) },
+  { key: 'itp', field: 'imageType', values: ['photo', 'clipart', 'lineart', 'face', 'news', 'stock'] },
+  { key: 'imgar', field: 'aspectRatio', values: ['t', 's', 'w', 'xw', 'xxw'] },
+  { key: 'ic', field: 'imageColor', values: ['color', 'gray', 'mono', 'trans'] },
+  { key: 'il', field: 'usage', values: ['cl', 'ol'] },
+  { key: 'sur', field: 'usage', values: ['fmc', 'fc', 'fm', 'f'] }, // Legacy usage rights
+  { key: 'qdr', field: 'time', values: ['d', 'w', 'm', 'y'] }
+];
+
+// isc: colors; "ic:specific" must be followed by one of these
+const TBS_SPECIFIC_COLORS = ['black', 'blue', 'brown', 'gray', 'green', 'orange', 'pink', 'purple', 'red', 'teal', 'white', 'yellow'];
+
+// Serialization order; the color slot holds either imageColor or imageColorFilter
+const TBS_FIELD_ORDER: Array<keyof TbsParameters> = [
+  'imageSize', 'imageType', 'imageColor', 'imageColorFilter', 'imageSizeLimit', 'aspectRatio', 'time', 'usage'
+];
+
+/**
+ * Parses a raw tbs string ("isz:lt,islt:4mp,ic:specific,isc:blue,qdr:w") into
+ * the typed model. A later token for the same key wins; unknown keys or
+ * values are returned in errors.
+ */
+export function parseTbs(value: string): { tbs: TbsParameters; errors: string[] } {
+  const tbs: TbsParameters = {};
+  const errors: string[] = [];
+  const tokens = value.split(',').map(token => token.trim().toLowerCase()).filter(Boolean);
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    const [key, tokenValue] = token.split(':');
+
+    // Specific colors are the two-token form "ic:specific,isc:<color>"; a bare isc: is accepted too
+    if (token === 'ic:specific' || key === 'isc') {
+      const colorToken = key === 'isc' ? token : tokens[i + 1];
+      const color = colorToken?.startsWith('isc:') ? colorToken.slice(4) : undefined;
+      if (key !== 'isc' && color !== undefined) i++;
+      if (!color || !TBS_SPECIFIC_COLORS.includes(color)) {
+        errors.push(`"${token}" must be followed by isc:<color> (${TBS_SPECIFIC_COLORS.join(', ')})`);
+        continue;
       }
-    });
+      tbs.imageColorFilter = `ic:specific,isc:${color}` as TbsParameters['imageColorFilter'];
+      delete tbs.imageColor;
+      continue;
+    }
+
+    const field = TBS_FIELDS.find(f => f.key === key);
+    if (!field || tokenValue === undefined || !field.values.includes(tokenValue)) {
+      errors.push(field
+        ? `Unsupported value in "${token}"; ${key}: accepts ${field.values.join(', ')}`
+        : `Unknown TBS token "${token}"`);
+      continue;
+    }
+    (tbs as Record<string, string>)[field.field] = token;
+    if (field.field === 'imageColor') delete tbs.imageColorFilter;
+  }
+
+  return { tbs, errors };
+}
+
+/**
+ * Serializes the model back to a tbs string in a stable order
+ */
+export function serializeTbs(tbs: TbsParameters): string {
+  return TBS_FIELD_ORDER.map(field => tbs[field]).filter(Boolean).join(',');
+}
+
+/**
+ * Overlays user TBS on the defaults key by key, so "imgar:t" only replaces
+ * the aspect filter and keeps the size/type/color defaults
+ */
+export function mergeTbs(defaults: TbsParameters, overrides: TbsParameters = {}): TbsParameters {
+  const merged: TbsParameters = { ...defaults, ...overrides };
+  // imageColor and imageColorFilter share Google's ic: slot
+  if (overrides.imageColor) delete merged.imageColorFilter;
+  if (overrides.imageColorFilter) delete merged.imageColor;
+  return merged;
+}
+
+/**
+ * Default wallpaper TBS: large photos, color (or the requested color), a
+ * minimum size, an aspect filter that prefers an exact target over the
+ * orientation hint, and the usage-rights and recency filters when asked for
+ */
+function defaultTbsParameters(options: TbsDefaultsOptions): TbsParameters {
+  const { orientation, aspectRatio, targetResolution, color, license, since } = options;
+  const tbs: TbsParameters = {
+    imageSize: 'isz:lt', // Large or larger images
+    imageType: 'itp:photo', // Photo type only (excludes clipart, drawings)
+    imageSizeLimit: targetResolution ? resolutionToTbs(targetResolution) : 'islt:2mp'
+  };
+
+  // Requested color, else color images only (excludes grayscale)
+  const colorToken = color ? colorToTbs(color) : 'ic:color';
+  if (colorToken.startsWith('ic:specific')) {
+    tbs.imageColorFilter = colorToken as TbsParameters['imageColorFilter'];
+  } else {
+    tbs.imageColor = colorToken as TbsParameters['imageColor'];
+  }
+
+  if (aspectRatio) {
+    tbs.aspectRatio = aspectRatioToTbs(aspectRatio);
+  } else if (orientation === 'portrait') {
+    tbs.aspectRatio = 'imgar:t'; // Tall/portrait aspect ratio
+  } else if (orientation === 'landscape') {
+    tbs.aspectRatio = 'imgar:w'; // Wide/landscape aspect ratio
   }
 
-  return tbsParams.join(',');
+  const usage = license ? licenseToTbs(license) : undefined;
+  if (usage) tbs.usage = usage;
+  if (since) tbs.time = sinceToTbs(since);
+  return tbs;
+}
+
+/**
+ * Generates TBS parameters for Google Image Search optimization; custom
+ * parameters replace the matching defaults
+ */
+export function generateTbsParameters(options: TbsDefaultsOptions, customTbs?: Partial<TbsParameters>): string {
+  return serializeTbs(mergeTbs(defaultTbsParameters(options), customTbs));
 }
 
 /**
@@ -84,6 +482,11 @@ export function craftWallpaperQuery(
 ): { query: string; tbs?: string } {
   const {
     orientation,
+    color,
+    sites,
+    excludeSites,
+    excludeTerms,
+    tbs,
     includeQualityTerms = false, // Default to false when using TBS
     includeOrientationTerms = false, // Default to false when using TBS
     useTbsParameters = true
@@ -112,13 +515,23 @@ export function craftWallpaperQuery(
     queryParts.push(...orientationTerms);
   }
 
+  // Without TBS the color filter has to become a query term
+  if (color && !useTbsParameters) {
+    queryParts.push(colorQueryTerm(color));
+  }
+
+  const operators = renderInlineOperators({ sites, excludeSites, excludeTerms });
+  if (operators) {
+    queryParts.push(operators);
+  }
+
   const result: { query: string; tbs?: string } = {
     query: queryParts.join(' ')
   };
 
   // Generate TBS parameters if enabled
   if (useTbsParameters) {
-    result.tbs = generateTbsParameters(orientation);
+    result.tbs = generateTbsParameters(options, tbs ? parseTbs(tbs).tbs : undefined);
   }
 
   return result;
@@ -192,6 +605,92 @@ export function getFileFormatFromUrl(url: string): string {
   return extension || 'jpg';
 }
 
+// Query parameters that only change how a CDN resizes/encodes an image, or track the click
+const RESIZE_AND_TRACKING_PARAMS = new Set([
+  'w', 'h', 'width', 'height', 'fit', 'crop', 'auto', 'q', 'quality', 'fm', 'format', 'dpr', 'cs',
+  'ixlib', 'ixid', 'fbclid', 'gclid', 'ref', 'ref_src'
+]);
+
+// Host-specific rules: return the canonical URL for an image on that host
+const CANONICAL_HOST_RULES: Array<{ host: RegExp; canonicalize: (url: URL) => string }> = [
+  {
+    // images.unsplash.com/photo-123?w=1080&auto=format&fit=crop -> images.unsplash.com/photo-123
+    host: /(^|\.)unsplash\.com$/,
+    canonicalize: url => `https://${url.hostname}${url.pathname}`
+  },
+  {
+    // images.pexels.com/photos/1/pexels-photo-1.jpeg?auto=compress&cs=tinysrgb&w=1260
+    host: /(^|\.)pexels\.com$/,
+    canonicalize: url => `https://${url.hostname}${url.pathname}`
+  },
+  {
+    // imgur.com/abcdefg, i.imgur.com/abcdefgl.jpg (size suffix) and .png/.gifv variants -> i.imgur.com/abcdefg
+    host: /(^|\.)imgur\.com$/,
+    canonicalize: url => {
+      const match = url.pathname.match(/^\/([a-zA-Z0-9]{7})[sbtmlh]?(\.\w+)?$/) || url.pathname.match(/^\/([a-zA-Z0-9]{5,7})(\.\w+)?$/);
+      return match ? `https://i.imgur.com/${match[1]}` : `https://${url.hostname}${url.pathname}`;
+    }
+  },
+  {
+    // w.wallhaven.cc/full/ab/wallhaven-abc123.jpg, th.wallhaven.cc/small/ab/abc123.jpg -> wallhaven.cc/w/abc123
+    host: /(^|\.)wallhaven\.cc$/,
+    canonicalize: url => {
+      const match = url.pathname.match(/\/(?:wallhaven-)?([a-z0-9]{6})(?:\.\w+)?$/);
+      return match ? `https://wallhaven.cc/w/${match[1]}` : `https://${url.hostname}${url.pathname}`;
+    }
+  },
+  {
+    // preview.redd.it/title-v0-abc123.jpeg?width=640&s=... and i.redd.it/abc123.jpeg -> i.redd.it/abc123.jpeg
+    host: /(^|\.)redd\.it$/,
+    canonicalize: url => {
+      if (url.hostname === 'preview.redd.it' || url.hostname === 'i.redd.it') {
+        const file = url.pathname.split('/').pop() || '';
+        const id = file.replace(/^.*-v0-/, '').replace(/\.(jpe?g|png|gif|webp)$/i, '');
+        const extension = (file.match(/\.(\w+)$/)?.[1] || 'jpg').toLowerCase().replace('jpeg', 'jpg');
+        return `https://i.redd.it/${id}.${extension}`;
+      }
+      // external-preview.redd.it and others: the query is only a signature/resize
+      return `https://${url.hostname}${url.pathname}`;
+    }
+  }
+];
+
+/**
+ * Canonical form of an image URL, used as the key when deduplicating results
+ * across engines. Normalises scheme, host, default ports and fragments, drops
+ * resize and tracking parameters, and applies host-specific rules for common
+ * wallpaper hosts and CDNs. Unparseable URLs are returned unchanged.
+ */
+export function canonicalizeImageUrl(rawUrl: string): string {
+  let url: URL;
+  try {
+    url = new URL(rawUrl.trim());
+  } catch {
+    return rawUrl;
+  }
+  if (!['http:', 'https:'].includes(url.protocol)) return rawUrl;
+
+  url.protocol = 'https:';
+  url.hostname = url.hostname.toLowerCase().replace(/^www\./, '');
+  url.port = '';
+  url.hash = '';
+
+  const rule = CANONICAL_HOST_RULES.find(r => r.host.test(url.hostname));
+  if (rule) {
+    return rule.canonicalize(url);
+  }
+
+  const params: string[][] = [];
+  url.searchParams.forEach((value, key) => {
+    if (!RESIZE_AND_TRACKING_PARAMS.has(key.toLowerCase()) && !key.toLowerCase().startsWith('utm_')) {
+      params.push([key, value]);
+    }
+  });
+  params.sort(([a], [b]) => a.localeCompare(b));
+  url.search = new URLSearchParams(params).toString();
+  return url.toString();
+}
+
 /**
  * Minimal wallpaper query that lets TBS parameters do the heavy lifting
  * This approach maximizes flexibility while maintaining quality through technical filters
@@ -199,26 +698,43 @@ export function getFileFormatFromUrl(url: string): string {
 export function craftMinimalWallpaperQuery(
   userQuery: string, 
   options: QueryCraftingOptions = {}
-): { query: string; orTerms?: string; excludeTerms?: string; tbs?: string } {
+): { query: string; orTerms?: string; excludeTerms?: string; siteSearch?: string; siteSearchFilter?: 'i' | 'e'; tbs?: string } {
   
   const {
-    orientation,
+    sites = [],
+    excludeSites = [],
+    excludeTerms = [],
+    tbs,
     useTbsParameters = true
   } = options;
 
+  // siteSearch takes one site, either included or excluded; the rest go into the query
+  const siteSearch = sites.length === 1 ? sites[0] : sites.length === 0 && excludeSites.length === 1 ? excludeSites[0] : undefined;
+  const inlineOperators = renderInlineOperators({
+    sites: sites.length > 1 ? sites : [],
+    excludeSites: sites.length === 0 && excludeSites.length === 1 ? [] : excludeSites
+  });
+
   const result = {
     // Pure user input - maximum flexibility
-    query: userQuery,
+    query: inlineOperators ? `${userQuery} ${inlineOperators}` : userQuery,
     
     // OPTIONAL quality/context boost (not required)
     // This just helps ranking but doesn't exclude results
     orTerms: 'wallpaper background 4K UHD "high resolution"',
     
     // Focus on excluding obvious non-wallpapers
-    excludeTerms: 'screenshot thumbnail preview icon logo clipart avatar profile "stock photo" pinterest getty steamusercontent steamcommunity webp youtube',
+    excludeTerms: [
+      'screenshot thumbnail preview icon logo clipart avatar profile "stock photo" pinterest getty steamusercontent steamcommunity webp youtube',
+      ...excludeTerms.map(quoteTerm)
+    ].join(' '),
+
+    // A single site: or -site: operator maps to Google's native site restriction
+    siteSearch,
+    siteSearchFilter: siteSearch ? (sites.length === 1 ? 'i' : 'e') as 'i' | 'e' : undefined,
     
     // Let TBS parameters handle size, quality, and type filtering
-    tbs: useTbsParameters ? generateAdvancedTbsParameters(orientation) : undefined
+    tbs: useTbsParameters ? generateAdvancedTbsParameters(options, tbs ? parseTbs(tbs).tbs : undefined) : undefined
   };
 
   return result;
@@ -232,39 +748,64 @@ export function craftBraveWallpaperQuery(
   userQuery: string, 
   options: QueryCraftingOptions = {}
 ): string {
-  const { orientation, engine } = options;
+  const { orientation, engine, aspectRatio, targetResolution, color, sites, excludeSites, excludeTerms } = options;
   
   // Start with user query and add quality terms using OR operator
   let query = `${userQuery} (wallpaper OR background OR "high resolution" OR 4K OR UHD OR 2K)`;
   
-  // Add orientation-specific terms using OR grouping
-  if (orientation === 'portrait') {
+  // An exact target replaces the generic orientation terms
+  if (aspectRatio || targetResolution) {
+    const terms = aspectRatioTerms(aspectRatio ?? targetResolution!.width / targetResolution!.height);
+    if (targetResolution) terms.unshift(`${targetResolution.width}x${targetResolution.height}`);
+    query += ` (${Array.from(new Set(terms)).join(' OR ')})`;
+  } else if (orientation === 'portrait') {
     query += ' (mobile OR vertical OR portrait OR "phone wallpaper")';
   } else if (orientation === 'landscape') {
     query += ' (desktop OR widescreen OR landscape OR "desktop wallpaper")';
   }
 
+  // Brave has no color filter, so ask for the color in the query
+  if (color) {
+    query += ` ${colorQueryTerm(color)}`;
+  }
+
+  // Brave supports site:, -site: and -term natively
+  const operators = renderInlineOperators({ sites, excludeSites, excludeTerms });
+  if (operators) {
+    query += ` ${operators}`;
+  }
+
   return query;
 }
 
+// Search terms people use for common monitor and phone aspect ratios
+const ASPECT_RATIO_TERMS: Array<{ ratio: number; terms: string[] }> = [
+  { ratio: 48 / 9, terms: ['"48:9"', '"triple monitor"', '5760x1080'] },
+  { ratio: 32 / 9, terms: ['"32:9"', '"super ultrawide"', '"dual monitor"', '5120x1440'] },
+  { ratio: 21 / 9, terms: ['"21:9"', 'ultrawide', '3440x1440'] },
+  { ratio: 16 / 9, terms: ['"16:9"', 'desktop', 'widescreen'] },
+  { ratio: 16 / 10, terms: ['"16:10"', 'desktop', '2560x1600'] },
+  { ratio: 4 / 3, terms: ['"4:3"', 'tablet'] },
+  { ratio: 1, terms: ['square'] },
+  { ratio: 9 / 16, terms: ['"9:16"', 'mobile', '"phone wallpaper"'] },
+  { ratio: 9 / 19.5, terms: ['"9:19.5"', 'iphone', '"phone wallpaper"'] }
+];
+
 /**
- * Generates advanced TBS parameters for aggressive technical filtering
+ * Query terms for the named aspect ratio closest to the target
  */
-function generateAdvancedTbsParameters(orientation?: 'landscape' | 'portrait'): string {
-  const tbsParams: string[] = [];
-
-  // Very aggressive technical filtering since we're being flexible with keywords
-  tbsParams.push('isz:lt');        // Large or larger images only
-  tbsParams.push('islt:2mp');      // 6MP minimum (higher than before)
-  tbsParams.push('itp:photo');     // Photos only, no clipart
-  tbsParams.push('ic:color');      // Color images only
-
-  // Strict aspect ratio filtering
-  if (orientation === 'portrait') {
-    tbsParams.push('imgar:t');     // Tall aspect ratio
-  } else if (orientation === 'landscape') {
-    tbsParams.push('imgar:w');     // Wide aspect ratio
-  }
+function aspectRatioTerms(ratio: number): string[] {
+  const closest = ASPECT_RATIO_TERMS.reduce((best, entry) =>
+    Math.abs(Math.log(entry.ratio / ratio)) < Math.abs(Math.log(best.ratio / ratio)) ? entry : best
+  );
+  return [...closest.terms];
+}
 
-  return tbsParams.join(',');
+/**
+ * Generates advanced TBS parameters for aggressive technical filtering, with
+ * user tokens merged over the defaults
+ */
+function generateAdvancedTbsParameters(options: TbsDefaultsOptions, customTbs?: TbsParameters): string {
+  // Large photos, color, minimum size (2MP or the target resolution), strict aspect ratio, usage-rights and recency filtering
+  return serializeTbs(mergeTbs(defaultTbsParameters(options), customTbs));
 } 
\ No newline at end of file
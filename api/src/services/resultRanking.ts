@@ -0,0 +1,193 @@
+import { IntermediarySearchResult, EngineRank } from '../types';
+import { SEARCH_ENGINE_CONFIG } from '../config/searchEngines';
+import { canonicalizeImageUrl } from './queryUtils';
+
+/**
+ * What a ranking signal can see about one (deduplicated) result
+ */
+export interface RankingCandidate {
+  item: IntermediarySearchResult;
+  // 1-based position of this image in each engine's result list
+  engineRanks: Record<string, number>;
+}
+
+export interface RankingTarget {
+  orientation?: 'landscape' | 'portrait';
+  aspectRatio?: number;
+  targetResolution?: { width: number; height: number };
+}
+
+export interface RankingContext extends RankingTarget {
+  // Engines that returned at least one result
+  engines: string[];
+}
+
+/**
+ * A ranking signal scores a candidate between 0 and 1; the pipeline adds
+ * up weight * score over all signals.
+ */
+export interface RankingSignal {
+  name: string;
+  weight: number;
+  score(candidate: RankingCandidate, context: RankingContext): number;
+}
+
+const { RRF_K, WEIGHTS, UNKNOWN_DIMENSIONS_SCORE } = SEARCH_ENGINE_CONFIG.RANKING;
+const REFERENCE_PIXELS = 3840 * 2160;
+
+/**
+ * Reciprocal rank fusion: sum of 1 / (k + rank) over engines, scaled so an
+ * image ranked first by every engine scores 1
+ */
+export const rrfSignal: RankingSignal = {
+  name: 'rrf',
+  weight: WEIGHTS.RRF,
+  score({ engineRanks }, { engines }) {
+    if (engines.length === 0) return 0;
+    const fused = Object.values(engineRanks).reduce((sum, rank) => sum + 1 / (RRF_K + rank), 0);
+    return fused / (engines.length / (RRF_K + 1));
+  }
+};
+
+/**
+ * Pixel count relative to 4K. Engines that report 0x0 get a neutral score
+ * instead of sinking to the bottom.
+ */
+export const resolutionSignal: RankingSignal = {
+  name: 'resolution',
+  weight: WEIGHTS.RESOLUTION,
+  score({ item }) {
+    if (!item.width || !item.height) return UNKNOWN_DIMENSIONS_SCORE;
+    return Math.min(1, Math.sqrt((item.width * item.height) / REFERENCE_PIXELS));
+  }
+};
+
+/**
+ * Largest crop of an image to the target aspect ratio: the share of pixels
+ * kept, and whether the crop is still at least the target resolution
+ */
+export function cropToAspectRatio(
+  width: number,
+  height: number,
+  aspectRatio: number,
+  targetResolution?: { width: number; height: number }
+): { width: number; height: number; keptFraction: number; needsUpscale: boolean } {
+  const ratio = width / height;
+  const cropped = ratio > aspectRatio
+    ? { width: Math.round(height * aspectRatio), height }
+    : { width, height: Math.round(width / aspectRatio) };
+  return {
+    ...cropped,
+    keptFraction: Math.min(ratio / aspectRatio, aspectRatio / ratio),
+    needsUpscale: !!targetResolution && (cropped.width < targetResolution.width || cropped.height < targetResolution.height)
+  };
+}
+
+/**
+ * How well the image fits the target. With an exact aspect ratio: the share
+ * of pixels kept when cropping to it, scaled down when the crop would need
+ * upscaling to the target resolution. Otherwise by orientation: 0 for the
+ * wrong one, 0.5-1 depending on closeness to 16:9 (or 9:16).
+ */
+export const aspectFitSignal: RankingSignal = {
+  name: 'aspectFit',
+  weight: WEIGHTS.ASPECT_FIT,
+  score({ item }, { orientation, aspectRatio, targetResolution }) {
+    if (!item.width || !item.height) return UNKNOWN_DIMENSIONS_SCORE;
+    if (aspectRatio) {
+      const crop = cropToAspectRatio(item.width, item.height, aspectRatio, targetResolution);
+      const scale = targetResolution ? Math.min(1, crop.width / targetResolution.width) : 1;
+      return crop.keptFraction * scale;
+    }
+    if (!orientation) return UNKNOWN_DIMENSIONS_SCORE;
+    const ratio = item.width / item.height;
+    const isLandscape = ratio >= 1;
+    if ((orientation === 'landscape') !== isLandscape) return 0;
+    const target = orientation === 'landscape' ? 16 / 9 : 9 / 16;
+    const distance = Math.min(1, Math.abs(Math.log(ratio / target)) / Math.LN2);
+    return 1 - distance / 2;
+  }
+};
+
+/**
+ * Share of the other engines that also returned this image
+ */
+export const agreementSignal: RankingSignal = {
+  name: 'agreement',
+  weight: WEIGHTS.AGREEMENT,
+  score({ engineRanks }, { engines }) {
+    if (engines.length < 2) return 0;
+    return (Object.keys(engineRanks).length - 1) / (engines.length - 1);
+  }
+};
+
+function copyField<K extends keyof IntermediarySearchResult>(target: IntermediarySearchResult, source: IntermediarySearchResult, key: K) {
+  target[key] = source[key];
+}
+
+/**
+ * Fills gaps in a result from a duplicate found by another engine: known
+ * dimensions win over 0x0 (or smaller) ones, and missing text, thumbnails and
+ * file details are taken from the duplicate.
+ */
+export function mergeResultMetadata(base: IntermediarySearchResult, other: IntermediarySearchResult): IntermediarySearchResult {
+  const merged = { ...base };
+  const basePixels = (base.width || 0) * (base.height || 0);
+  const otherPixels = (other.width || 0) * (other.height || 0);
+  if (otherPixels > basePixels) {
+    merged.width = other.width;
+    merged.height = other.height;
+  }
+
+  const fillable: Array<keyof IntermediarySearchResult> = ['title', 'thumbnailUrl', 'sourceUrl', 'sourceDomain', 'description', 'fileSize', 'mimeType', 'fileFormat', 'license', 'filterLicense', 'author', 'authorUrl'];
+  for (const key of fillable) {
+    if (!merged[key] && other[key]) {
+      copyField(merged, other, key);
+    }
+  }
+  return merged;
+}
+
+export const DEFAULT_RANKING_SIGNALS: RankingSignal[] = [rrfSignal, resolutionSignal, aspectFitSignal, agreementSignal];
+
+/**
+ * Merges raw engine results by canonical URL (see canonicalizeImageUrl), records each engine's rank for every
+ * image in sourceEngines, then sorts by the combined signal score.
+ * Input order must be each engine's own result order.
+ */
+export function rankResults(
+  results: IntermediarySearchResult[],
+  target: RankingTarget = {},
+  signals: RankingSignal[] = DEFAULT_RANKING_SIGNALS
+): IntermediarySearchResult[] {
+  const candidates = new Map<string, RankingCandidate>();
+  const positions = new Map<string, number>();
+
+  for (const item of results) {
+    const engine = item.sourceEngine || 'unknown';
+    const rank = (positions.get(engine) || 0) + 1;
+    positions.set(engine, rank);
+
+    const key = canonicalizeImageUrl(item.url);
+    const candidate = candidates.get(key);
+    if (!candidate) {
+      candidates.set(key, { item, engineRanks: { [engine]: rank } });
+    } else if (candidate.engineRanks[engine] === undefined) {
+      candidate.engineRanks[engine] = rank;
+      candidate.item = mergeResultMetadata(candidate.item, item);
+    }
+  }
+
+  const context: RankingContext = { ...target, engines: Array.from(positions.keys()) };
+
+  return Array.from(candidates.values())
+    .map(candidate => ({
+      ...candidate.item,
+      sourceEngines: Object.entries(candidate.engineRanks)
+        .map(([engine, rank]): EngineRank => ({ engine, rank }))
+        .sort((a, b) => (a.rank ?? 0) - (b.rank ?? 0)),
+      score: signals.reduce((sum, signal) => sum + signal.weight * signal.score(candidate, context), 0)
+    }))
+    // Stable sort keeps engine order for equal scores
+    .sort((a, b) => b.score - a.score);
+}
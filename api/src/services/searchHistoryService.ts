@@ -0,0 +1,111 @@
+import { SearchHistoryEntry } from '../types';
+import { debugLog } from './queryUtils';
+
+interface SearchHistoryRow {
+  id: string;
+  user_id: string;
+  query: string;
+  timestamp: string;
+  orientation: string | null;
+  tbs: string | null;
+  engine: string | null;
+  result_count: number | null;
+  cache_hit: number | null;
+}
+
+function toEntry(row: SearchHistoryRow): SearchHistoryEntry {
+  return {
+    id: row.id,
+    query: row.query,
+    orientation: row.orientation ?? undefined,
+    tbs: row.tbs ?? undefined,
+    engine: row.engine ?? undefined,
+    resultCount: row.result_count ?? 0,
+    cacheHit: !!row.cache_hit,
+    timestamp: row.timestamp
+  };
+}
+
+/**
+ * Per-user log of /api/search/images calls, stored in the search_history table
+ */
+export class SearchHistoryService {
+  db: any;
+
+  constructor(db: any) {
+    this.db = db;
+  }
+
+  /**
+   * Records a search. Failures are logged and swallowed so history never breaks a search.
+   */
+  async recordSearch(userId: string, entry: Omit<SearchHistoryEntry, 'id' | 'timestamp'>): Promise<void> {
+    try {
+      await this.db.prepare(
+        `INSERT INTO search_history (id, user_id, query, timestamp, orientation, tbs, engine, result_count, cache_hit)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      ).bind(
+        crypto.randomUUID(),
+        userId,
+        entry.query,
+        new Date().toISOString(),
+        entry.orientation ?? null,
+        entry.tbs ?? null,
+        entry.engine ?? null,
+        entry.resultCount,
+        entry.cacheHit ? 1 : 0
+      ).run();
+    } catch (error) {
+      console.error('Failed to record search history:', error);
+    }
+  }
+
+  async listHistory(userId: string, offset: number, limit: number): Promise<{ entries: SearchHistoryEntry[]; total: number }> {
+    const { results } = await this.db.prepare(
+      `SELECT * FROM search_history WHERE user_id = ? ORDER BY timestamp DESC LIMIT ? OFFSET ?`
+    ).bind(userId, limit, offset).all();
+
+    const countRow = await this.db.prepare(
+      `SELECT COUNT(*) as count FROM search_history WHERE user_id = ?`
+    ).bind(userId).first();
+
+    return {
+      entries: (results as SearchHistoryRow[]).map(toEntry),
+      total: countRow?.count || 0
+    };
+  }
+
+  async deleteEntry(userId: string, id: string): Promise<boolean> {
+    const info = await this.db.prepare(
+      `DELETE FROM search_history WHERE user_id = ? AND id = ?`
+    ).bind(userId, id).run();
+    return (info.meta?.changes ?? 0) > 0;
+  }
+
+  async clearHistory(userId: string): Promise<number> {
+    const info = await this.db.prepare(
+      `DELETE FROM search_history WHERE user_id = ?`
+    ).bind(userId).run();
+
+    const count = info.meta?.changes ?? 0;
+    debugLog('LOG_REQUESTS', '🗑️ [HISTORY CLEARED]', { user: userId, removedEntries: count });
+    return count;
+  }
+
+  /**
+   * Distinct past queries matching a prefix, most recently used first
+   */
+  async getQuerySuggestions(prefix: string, userId: string, limit = 10): Promise<string[]> {
+    if (!prefix || !userId) {
+      return [];
+    }
+
+    const { results } = await this.db.prepare(
+      `SELECT query, MAX(timestamp) AS last_used FROM search_history
+       WHERE user_id = ? AND query LIKE ?
+       GROUP BY query ORDER BY last_used DESC LIMIT ?`
+    ).bind(userId, `${prefix}%`, limit).all();
+
+    return (results || []).map((row: { query: string }) => row.query);
+  }
+}
@@ -4,14 +4,17 @@ import {
   IntermediarySearchResponse, 
   IntermediarySearchResult,
   IntermediaryPaginationInfo,
-  ApiResponse 
+  ApiResponse,
+  EngineCallRecorder
 } from '../types';
 import { 
   craftWallpaperQuery, 
   isValidImageUrl, 
   getMimeTypeFromUrl, 
-  getFileFormatFromUrl 
+  getFileFormatFromUrl,
+  searchVariantKey
 } from './queryUtils';
+import { licenseFilterLabel } from './attribution';
 import { SEARCH_ENGINE_CONFIG } from '../config/searchEngines';
 
 interface SerperImageResult {
@@ -55,13 +58,15 @@ export class SerperSearchEngine implements SearchEngine {
   supportsTbs = SEARCH_ENGINE_CONFIG.TBS_SUPPORT.SERPER;
   private apiKey: string;
   private baseUrl = 'https://google.serper.dev/images';
+  private usage?: EngineCallRecorder;
   
   // Simple in-memory cache for raw results (separate from main cache)
   private static rawResultsCache = new Map<string, SerperCachedResults>();
   private static readonly RAW_CACHE_TTL = 604800000; // 1 week in milliseconds
 
-  constructor(apiKey: string) {
+  constructor(apiKey: string, usage?: EngineCallRecorder) {
     this.apiKey = apiKey;
+    this.usage = usage;
   }
 
   /**
@@ -92,23 +97,23 @@ export class SerperSearchEngine implements SearchEngine {
   }
 
   /**
-   * Creates a cache key for raw results (query + orientation only)
+   * Creates a cache key for raw results (query, orientation, search variant and custom TBS)
    */
-  private createRawResultsCacheKey(query: string, orientation?: 'landscape' | 'portrait'): string {
-    return `serper_raw:${query.toLowerCase().trim()}:${orientation || 'any'}`;
+  private createRawResultsCacheKey(query: string, orientation?: 'landscape' | 'portrait', target = '', tbs = ''): string {
+    return `serper_raw:${query.toLowerCase().trim()}:${orientation || 'any'}:${target}:${tbs}`;
   }
 
   /**
    * Gets cached raw results if available and not expired
    */
-  private getCachedRawResults(cacheKey: string): SerperCachedResults | null {
+  private getCachedRawResults(cacheKey: string, maxAgeMs = SerperSearchEngine.RAW_CACHE_TTL): SerperCachedResults | null {
     const cached = SerperSearchEngine.rawResultsCache.get(cacheKey);
     if (!cached) return null;
 
     const now = Date.now();
     const age = now - new Date(cached.fetchedAt).getTime();
     
-    if (age > SerperSearchEngine.RAW_CACHE_TTL) {
+    if (age > maxAgeMs) {
       SerperSearchEngine.rawResultsCache.delete(cacheKey);
       return null;
     }
@@ -137,11 +142,20 @@ export class SerperSearchEngine implements SearchEngine {
   /**
    * Fetches fresh results from Serper API
    */
-  private async fetchFromSerperAPI(request: SearchRequest): Promise<SerperCachedResults> {
+  private async fetchFromSerperAPI(request: SearchRequest, signal?: AbortSignal): Promise<SerperCachedResults> {
     const startTime = Date.now();
     
     const queryResult = craftWallpaperQuery(request.query, {
       orientation: request.orientation,
+      aspectRatio: request.aspectRatio,
+      targetResolution: request.targetResolution,
+      color: request.color,
+      sites: request.sites,
+      excludeSites: request.excludeSites,
+      excludeTerms: request.excludeTerms,
+      license: request.license,
+      since: request.since,
+      tbs: request.tbs,
       includeQualityTerms: !this.supportsTbs, // Use manual terms only if TBS not supported
       includeOrientationTerms: !this.supportsTbs, // Use manual terms only if TBS not supported
       useTbsParameters: this.supportsTbs
@@ -155,7 +169,7 @@ export class SerperSearchEngine implements SearchEngine {
     });
 
     // Add TBS parameters if supported and available
-    const tbsParam = request.tbs || queryResult.tbs;
+    const tbsParam = queryResult.tbs;
     if (this.supportsTbs && tbsParam) {
       searchParams.set('tbs', tbsParam);
     }
@@ -174,11 +188,13 @@ export class SerperSearchEngine implements SearchEngine {
       timestamp: new Date().toISOString()
     });
 
+    this.usage?.recordCall(SEARCH_ENGINE_CONFIG.AVAILABLE_ENGINES.SERPER);
     const response = await fetch(searchUrl, {
       method: 'GET',
       headers: {
         'Content-Type': 'application/json'
-      }
+      },
+      signal
     });
 
     if (!response.ok) {
@@ -217,6 +233,8 @@ export class SerperSearchEngine implements SearchEngine {
       height: item.imageHeight,
       mimeType: getMimeTypeFromUrl(item.imageUrl),
       fileFormat: getFileFormatFromUrl(item.imageUrl),
+      // Only trustworthy when the il: filter actually went out
+      filterLicense: this.supportsTbs ? licenseFilterLabel(request.license) : undefined,
       sourceEngine: 'serper'
     }));
 
@@ -230,7 +248,7 @@ export class SerperSearchEngine implements SearchEngine {
     };
   }
 
-  async search(request: SearchRequest): Promise<ApiResponse<IntermediarySearchResponse>> {
+  async search(request: SearchRequest, signal?: AbortSignal): Promise<ApiResponse<IntermediarySearchResponse>> {
     try {
       // Validate request
       const validation = this.validateSearchRequest(request);
@@ -242,12 +260,12 @@ export class SerperSearchEngine implements SearchEngine {
       }
 
       // Check for cached raw results first
-      const rawCacheKey = this.createRawResultsCacheKey(request.query, request.orientation);
-      let cachedResults = this.getCachedRawResults(rawCacheKey);
+      const rawCacheKey = this.createRawResultsCacheKey(request.query, request.orientation, searchVariantKey(request), request.tbs);
+      let cachedResults = this.getCachedRawResults(rawCacheKey, request.since ? SEARCH_ENGINE_CONFIG.RECENCY.CACHE_TTL_SECONDS * 1000 : undefined);
       
       // Fetch fresh results if not cached
       if (!cachedResults) {
-        cachedResults = await this.fetchFromSerperAPI(request);
+        cachedResults = await this.fetchFromSerperAPI(request, signal);
         this.setCachedRawResults(rawCacheKey, cachedResults);
       }
 
@@ -347,6 +365,7 @@ export class SerperSearchEngine implements SearchEngine {
 
   async healthCheck(): Promise<{ healthy: boolean; message: string }> {
     try {
+      this.usage?.recordCall(SEARCH_ENGINE_CONFIG.AVAILABLE_ENGINES.SERPER);
       const testResponse = await fetch(`${this.baseUrl}?q=test&num=1&apiKey=${this.apiKey}`, {
         method: 'GET',
         headers: {
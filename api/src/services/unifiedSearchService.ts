@@ -3,7 +3,8 @@ import {
   SearchRequest, 
   IntermediarySearchResponse, 
   ApiResponse,
-  Bindings 
+  Bindings,
+  EngineCallRecorder
 } from '../types';
 import { GoogleSearchEngine } from './googleSearchEngine';
 import { MockSearchEngine } from './mockSearchEngine';
@@ -17,10 +18,10 @@ export class UnifiedSearchService {
   private searchEngines: Map<string, SearchEngine> = new Map();
   private defaultEngine: string = SEARCH_ENGINE_CONFIG.DEFAULT_ENGINE;
 
-  constructor(env: Bindings) {
+  constructor(env: Bindings, usage?: EngineCallRecorder) {
     // Initialize Brave Search Engine if API key is available (highest priority)
     if (env.BRAVE_SEARCH_API_KEY) {
-      const braveEngine = new BraveSearchEngine(env.BRAVE_SEARCH_API_KEY);
+      const braveEngine = new BraveSearchEngine(env.BRAVE_SEARCH_API_KEY, usage);
       this.searchEngines.set(SEARCH_ENGINE_CONFIG.AVAILABLE_ENGINES.BRAVE, braveEngine);
     } else {
       console.warn('Brave Search API key not found');
@@ -28,7 +29,7 @@ export class UnifiedSearchService {
 
     // Initialize Zenserp Search Engine if API key is available
     if (env.ZENSERP_API_KEY) {
-      const zenserpEngine = new ZenserpSearchEngine(env.ZENSERP_API_KEY);
+      const zenserpEngine = new ZenserpSearchEngine(env.ZENSERP_API_KEY, usage);
       this.searchEngines.set(SEARCH_ENGINE_CONFIG.AVAILABLE_ENGINES.ZENSERP, zenserpEngine);
     } else {
       console.warn('Zenserp API key not found');
@@ -36,7 +37,7 @@ export class UnifiedSearchService {
 
     // Initialize Serper Search Engine if API key is available
     if (env.SERPER_API_KEY) {
-      const serperEngine = new SerperSearchEngine(env.SERPER_API_KEY);
+      const serperEngine = new SerperSearchEngine(env.SERPER_API_KEY, usage);
       this.searchEngines.set(SEARCH_ENGINE_CONFIG.AVAILABLE_ENGINES.SERPER, serperEngine);
     } else {
       console.warn('Serper API key not found');
@@ -46,7 +47,8 @@ export class UnifiedSearchService {
     if (env.GOOGLE_SEARCH_API_KEY && env.GOOGLE_SEARCH_ENGINE_ID) {
       const googleEngine = new GoogleSearchEngine(
         env.GOOGLE_SEARCH_API_KEY, 
-        env.GOOGLE_SEARCH_ENGINE_ID
+        env.GOOGLE_SEARCH_ENGINE_ID,
+        usage
       );
       this.searchEngines.set(SEARCH_ENGINE_CONFIG.AVAILABLE_ENGINES.GOOGLE, googleEngine);
     } else {
@@ -0,0 +1,113 @@
+/**
+ * HMAC-signed, expiring links for endpoints that are opened without the Auth0
+ * bearer token (<img> tags, downloads, shared links). The signature covers the
+ * path and every query parameter, including the embedded user id and expiry.
+ */
+
+import { SEARCH_ENGINE_CONFIG } from '../config/searchEngines';
+
+const USER_PARAM = 'uid';
+const EXPIRES_PARAM = 'exp';
+const SIGNATURE_PARAM = 'sig';
+
+export type SignedUrlCheck =
+  | { ok: true; userId: string; expiresAt: number }
+  | { ok: false; error: string };
+
+// Signs links for one user; expiresAt is in seconds since the epoch
+export interface UrlSigner {
+  key: CryptoKey;
+  userId: string;
+  expiresAt: number;
+}
+
+function toBase64Url(bytes: ArrayBuffer): string {
+  let binary = '';
+  for (const byte of new Uint8Array(bytes)) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string): ArrayBuffer | null {
+  try {
+    const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return bytes.buffer;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Path plus sorted query parameters without the signature, so parameter order
+ * and encoding differences don't invalidate a link
+ */
+function canonicalize(url: URL): string {
+  const params: string[][] = [];
+  url.searchParams.forEach((value, name) => {
+    if (name !== SIGNATURE_PARAM) params.push([name, value]);
+  });
+  params.sort(([a, aValue], [b, bValue]) => a === b ? aValue.localeCompare(bValue) : a.localeCompare(b));
+  return `${url.pathname}?${new URLSearchParams(params).toString()}`;
+}
+
+export async function importSigningKey(secret: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign', 'verify']
+  );
+}
+
+/**
+ * Expiry for links minted now. Rounded up to SIGNED_URLS.ROUND_SECONDS so
+ * the same image keeps the same URL for a while and browsers can cache it.
+ */
+export function signedUrlExpiry(now: number = Date.now()): number {
+  const { TTL_SECONDS, ROUND_SECONDS } = SEARCH_ENGINE_CONFIG.SIGNED_URLS;
+  const expiresAt = Math.floor(now / 1000) + TTL_SECONDS;
+  return Math.ceil(expiresAt / ROUND_SECONDS) * ROUND_SECONDS;
+}
+
+export async function signUrl(rawUrl: string, signer: UrlSigner): Promise<string> {
+  const url = new URL(rawUrl);
+  url.searchParams.set(USER_PARAM, signer.userId);
+  url.searchParams.set(EXPIRES_PARAM, signer.expiresAt.toString());
+  url.searchParams.delete(SIGNATURE_PARAM);
+  const signature = await crypto.subtle.sign('HMAC', signer.key, new TextEncoder().encode(canonicalize(url)));
+  url.searchParams.set(SIGNATURE_PARAM, toBase64Url(signature));
+  return url.toString();
+}
+
+/**
+ * Checks the signature (in constant time, via crypto.subtle.verify) and the
+ * expiry of an incoming request URL
+ */
+export async function verifySignedUrl(url: URL, key: CryptoKey, now: number = Date.now()): Promise<SignedUrlCheck> {
+  const userId = url.searchParams.get(USER_PARAM);
+  const expires = url.searchParams.get(EXPIRES_PARAM);
+  const signature = url.searchParams.get(SIGNATURE_PARAM);
+  if (!userId || !expires || !signature) {
+    return { ok: false, error: 'Missing link signature' };
+  }
+
+  const signatureBytes = fromBase64Url(signature);
+  const valid = !!signatureBytes && await crypto.subtle.verify(
+    'HMAC',
+    key,
+    signatureBytes,
+    new TextEncoder().encode(canonicalize(url))
+  );
+  if (!valid) {
+    return { ok: false, error: 'Invalid link signature' };
+  }
+
+  // Checked after the signature so a tampered exp is reported as tampering
+  const expiresAt = parseInt(expires, 10);
+  if (!Number.isFinite(expiresAt) || expiresAt * 1000 <= now) {
+    return { ok: false, error: 'Link expired' };
+  }
+  return { ok: true, userId, expiresAt };
+}
@@ -4,14 +4,17 @@ import {
   IntermediarySearchResponse, 
   IntermediarySearchResult,
   IntermediaryPaginationInfo,
-  ApiResponse 
+  ApiResponse,
+  EngineCallRecorder
 } from '../types';
 import { 
   craftWallpaperQuery, 
   isValidImageUrl, 
   getMimeTypeFromUrl, 
-  getFileFormatFromUrl 
+  getFileFormatFromUrl,
+  searchVariantKey
 } from './queryUtils';
+import { licenseFilterLabel } from './attribution';
 import { SEARCH_ENGINE_CONFIG } from '../config/searchEngines';
 
 interface ZenserpImageResult {
@@ -49,12 +52,14 @@ export class ZenserpSearchEngine implements SearchEngine {
   supportsTbs = SEARCH_ENGINE_CONFIG.TBS_SUPPORT.ZENSERP;
   private apiKey: string;
   private baseUrl = 'https://app.zenserp.com/api/v2/search';
+  private usage?: EngineCallRecorder;
   
   private static rawResultsCache = new Map<string, ZenserpCachedResults>();
   private static readonly RAW_CACHE_TTL = 604800000; // 1 week in milliseconds
 
-  constructor(apiKey: string) {
+  constructor(apiKey: string, usage?: EngineCallRecorder) {
     this.apiKey = apiKey;
+    this.usage = usage;
   }
 
   private validateSearchRequest(request: SearchRequest): { isValid: boolean; error?: string } {
@@ -81,18 +86,18 @@ export class ZenserpSearchEngine implements SearchEngine {
     return { isValid: true };
   }
 
-  private createRawResultsCacheKey(query: string, orientation?: 'landscape' | 'portrait'): string {
-    return `zenserp_raw:${query.toLowerCase().trim()}:${orientation || 'any'}`;
+  private createRawResultsCacheKey(query: string, orientation?: 'landscape' | 'portrait', target = '', tbs = ''): string {
+    return `zenserp_raw:${query.toLowerCase().trim()}:${orientation || 'any'}:${target}:${tbs}`;
   }
 
-  private getCachedRawResults(cacheKey: string): ZenserpCachedResults | null {
+  private getCachedRawResults(cacheKey: string, maxAgeMs = ZenserpSearchEngine.RAW_CACHE_TTL): ZenserpCachedResults | null {
     const cached = ZenserpSearchEngine.rawResultsCache.get(cacheKey);
     if (!cached) return null;
 
     const now = Date.now();
     const age = now - new Date(cached.fetchedAt).getTime();
     
-    if (age > ZenserpSearchEngine.RAW_CACHE_TTL) {
+    if (age > maxAgeMs) {
       ZenserpSearchEngine.rawResultsCache.delete(cacheKey);
       return null;
     }
@@ -119,6 +124,15 @@ export class ZenserpSearchEngine implements SearchEngine {
     
     const queryResult = craftWallpaperQuery(request.query, {
       orientation: request.orientation,
+      aspectRatio: request.aspectRatio,
+      targetResolution: request.targetResolution,
+      color: request.color,
+      sites: request.sites,
+      excludeSites: request.excludeSites,
+      excludeTerms: request.excludeTerms,
+      license: request.license,
+      since: request.since,
+      tbs: request.tbs,
       includeQualityTerms: !this.supportsTbs, // Use manual terms only if TBS not supported
       includeOrientationTerms: !this.supportsTbs, // Use manual terms only if TBS not supported
       useTbsParameters: this.supportsTbs
@@ -132,7 +146,7 @@ export class ZenserpSearchEngine implements SearchEngine {
     });
 
     // Add TBS parameters if supported and available
-    const tbsParam = request.tbs || queryResult.tbs;
+    const tbsParam = queryResult.tbs;
     if (this.supportsTbs && tbsParam) {
       searchParams.set('tbs', tbsParam);
     }
@@ -151,6 +165,7 @@ export class ZenserpSearchEngine implements SearchEngine {
       timestamp: new Date().toISOString()
     });
 
+    this.usage?.recordCall(SEARCH_ENGINE_CONFIG.AVAILABLE_ENGINES.ZENSERP);
     const response = await fetch(searchUrl, {
       method: 'GET',
       headers: {
@@ -199,7 +214,9 @@ export class ZenserpSearchEngine implements SearchEngine {
         width: estimatedWidth,
         height: estimatedHeight,
         mimeType: getMimeTypeFromUrl(item.sourceUrl),
-        fileFormat: getFileFormatFromUrl(item.sourceUrl)
+        fileFormat: getFileFormatFromUrl(item.sourceUrl),
+        // Only trustworthy when the il: filter actually went out
+        filterLicense: this.supportsTbs ? licenseFilterLabel(request.license) : undefined
       };
     });
 
@@ -223,8 +240,8 @@ export class ZenserpSearchEngine implements SearchEngine {
         };
       }
 
-      const rawCacheKey = this.createRawResultsCacheKey(request.query, request.orientation);
-      let cachedResults = this.getCachedRawResults(rawCacheKey);
+      const rawCacheKey = this.createRawResultsCacheKey(request.query, request.orientation, searchVariantKey(request), request.tbs);
+      let cachedResults = this.getCachedRawResults(rawCacheKey, request.since ? SEARCH_ENGINE_CONFIG.RECENCY.CACHE_TTL_SECONDS * 1000 : undefined);
 
       if (!cachedResults) {
         cachedResults = await this.fetchFromZenserpAPI(request);
@@ -301,6 +318,7 @@ export class ZenserpSearchEngine implements SearchEngine {
         num: '1'
       });
 
+      this.usage?.recordCall(SEARCH_ENGINE_CONFIG.AVAILABLE_ENGINES.ZENSERP);
       const response = await fetch(`${this.baseUrl}?${testParams}`, {
         method: 'GET',
         headers: {
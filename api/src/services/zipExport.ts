@@ -0,0 +1,180 @@
+/**
+ * Bulk export of a collection or a selection of images as one ZIP archive.
+ * Images are fetched one after another while the archive streams out, and a
+ * manifest.json listing every image (and every one that failed) comes last.
+ */
+
+import { IntermediarySearchResult } from '../types';
+import { SEARCH_ENGINE_CONFIG } from '../config/searchEngines';
+import { fetchUpstreamImage, parseProxyTarget } from './imageProxy';
+import { downloadFilename, sniffImageBody, slugify } from './imageDownload';
+import { ImageRow } from './imagesService';
+import { createZipStream, ZipEntry } from './zipStream';
+
+export const MANIFEST_FILENAME = 'manifest.json';
+export const IMAGE_EXPORT_PATH = '/api/images/export';
+
+export type ExportSelection = { collectionId: string } | { imageIds: string[] };
+
+export interface ExportImage {
+  imageId?: string;
+  title?: string;
+  url: string;
+  sourceUrl?: string;
+  sourceDomain?: string;
+  width?: number;
+  height?: number;
+  engines: string[];
+}
+
+export interface ExportManifest {
+  exportedAt: string;
+  collection?: { id: string; name: string };
+  images: Array<ExportImage & { file: string; mimeType: string }>;
+  failed: Array<ExportImage & { error: string }>;
+}
+
+/**
+ * Validates an export body: { collectionId } or { imageIds: [...] } (at most
+ * EXPORT.MAX_IMAGES, duplicates dropped)
+ */
+export function validateExportSelection(input: any): { selection?: ExportSelection; errors: string[] } {
+  const { MAX_IMAGES } = SEARCH_ENGINE_CONFIG.EXPORT;
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return { errors: ['Body must be a JSON object'] };
+  }
+  if ((input.collectionId === undefined) === (input.imageIds === undefined)) {
+    return { errors: ['Provide either collectionId or imageIds'] };
+  }
+
+  if (input.collectionId !== undefined) {
+    return typeof input.collectionId === 'string' && input.collectionId.length > 0
+      ? { selection: { collectionId: input.collectionId }, errors: [] }
+      : { errors: ['collectionId must be a non-empty string'] };
+  }
+
+  if (!Array.isArray(input.imageIds) || input.imageIds.length === 0) {
+    return { errors: ['imageIds must be a non-empty array'] };
+  }
+  if (input.imageIds.some((id: any) => typeof id !== 'string' || !/^[0-9a-f]{40}$/.test(id))) {
+    return { errors: ['imageIds must be image ids (40-character hex strings)'] };
+  }
+  const imageIds = Array.from(new Set<string>(input.imageIds));
+  if (imageIds.length > MAX_IMAGES) {
+    return { errors: [`Too many images (max ${MAX_IMAGES})`] };
+  }
+  return { selection: { imageIds }, errors: [] };
+}
+
+/**
+ * Unsigned export link for a selection; the ids travel comma-separated
+ */
+export function imageExportUrl(origin: string, selection: ExportSelection): string {
+  return 'collectionId' in selection
+    ? `${origin}${IMAGE_EXPORT_PATH}?collection=${encodeURIComponent(selection.collectionId)}`
+    : `${origin}${IMAGE_EXPORT_PATH}?ids=${selection.imageIds.join(',')}`;
+}
+
+export function exportImageFromResult(result: IntermediarySearchResult): ExportImage {
+  const engines = result.sourceEngines?.map(rank => rank.engine) ?? (result.sourceEngine ? [result.sourceEngine] : []);
+  return {
+    title: result.title || undefined,
+    url: result.url,
+    sourceUrl: result.sourceUrl || undefined,
+    sourceDomain: result.sourceDomain || undefined,
+    width: result.width || undefined,
+    height: result.height || undefined,
+    engines
+  };
+}
+
+export function exportImageFromRow(row: ImageRow & { engines: string[] }): ExportImage {
+  return {
+    imageId: row.id,
+    title: row.title ?? undefined,
+    url: row.url,
+    sourceUrl: row.sourceUrl ?? undefined,
+    sourceDomain: row.sourceDomain ?? undefined,
+    width: row.width ?? undefined,
+    height: row.height ?? undefined,
+    engines: row.engines
+  };
+}
+
+/**
+ * e.g. desk-wallpapers_2026-10-19.zip
+ */
+export function exportArchiveName(name?: string, now: Date = new Date()): string {
+  return `${slugify(name || '') || 'wallpapers'}_${now.toISOString().slice(0, 10)}.zip`;
+}
+
+async function* exportEntries(
+  images: ExportImage[],
+  manifest: ExportManifest,
+  fetchImpl?: typeof fetch
+): AsyncGenerator<ZipEntry> {
+  const digits = String(images.length).length;
+
+  for (const [index, image] of images.entries()) {
+    const target = parseProxyTarget(image.url);
+    const result = target
+      ? await fetchUpstreamImage(target, fetchImpl)
+      : { ok: false as const, error: 'Not an http(s) URL' };
+    if (!result.ok) {
+      manifest.failed.push({ ...image, error: result.error });
+      continue;
+    }
+
+    let sniffed: Awaited<ReturnType<typeof sniffImageBody>>;
+    try {
+      sniffed = await sniffImageBody(result.response.body!);
+    } catch (error) {
+      manifest.failed.push({ ...image, error: error instanceof Error ? error.message : 'Failed to read image' });
+      continue;
+    }
+    const { info, body } = sniffed;
+    const mimeType = info?.mimeType || result.response.headers.get('Content-Type')!.split(';')[0].trim();
+    const width = info?.width ?? image.width;
+    const height = info?.height ?? image.height;
+    const file = `${String(index + 1).padStart(digits, '0')}_${downloadFilename({
+      url: image.url,
+      title: image.title ?? null,
+      sourceUrl: image.sourceUrl ?? null,
+      sourceDomain: image.sourceDomain ?? null,
+      width: width ?? null,
+      height: height ?? null
+    }, mimeType)}`;
+
+    yield {
+      name: file,
+      data: body,
+      onComplete: error => {
+        if (error) manifest.failed.push({ ...image, error });
+        else manifest.images.push({ ...image, width, height, file, mimeType });
+      }
+    };
+  }
+
+  yield {
+    name: MANIFEST_FILENAME,
+    data: new TextEncoder().encode(JSON.stringify(manifest, null, 2))
+  };
+}
+
+/**
+ * The archive as a stream. Images that can't be fetched, or fail part-way,
+ * are left out of the archive and listed under `failed` in the manifest.
+ */
+export function createExportZip(
+  images: ExportImage[],
+  collection?: { id: string; name: string },
+  fetchImpl?: typeof fetch
+): ReadableStream<Uint8Array> {
+  const manifest: ExportManifest = {
+    exportedAt: new Date().toISOString(),
+    ...(collection && { collection }),
+    images: [],
+    failed: []
+  };
+  return createZipStream(exportEntries(images, manifest, fetchImpl));
+}
@@ -0,0 +1,193 @@
+/**
+ * Minimal streaming ZIP writer. Entries are stored uncompressed (images are
+ * already compressed) and written with data descriptors, so each entry's CRC
+ * and size are computed while its bytes stream through and nothing has to be
+ * buffered. Archives must stay under 4 GB (no ZIP64).
+ */
+
+export interface ZipEntry {
+  name: string;
+  data: Uint8Array | ReadableStream<Uint8Array>;
+  modified?: Date;
+  // Called once the entry is written; error is set when its stream failed part-way
+  onComplete?: (error?: string) => void;
+}
+
+interface CentralRecord {
+  name: Uint8Array;
+  crc: number;
+  size: number;
+  offset: number;
+  time: number;
+  date: number;
+}
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const DATA_DESCRIPTOR_SIGNATURE = 0x08074b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+const VERSION = 20; // ZIP 2.0, enough for stored entries with data descriptors
+const FLAGS = 0x0808; // Bit 3: sizes in a data descriptor; bit 11: UTF-8 names
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+/**
+ * Running CRC-32; start with 0 and feed chunks in order
+ */
+export function crc32(crc: number, bytes: Uint8Array): number {
+  let c = crc ^ 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) c = CRC_TABLE[(c ^ bytes[i]) & 0xff] ^ (c >>> 8);
+  return (c ^ 0xffffffff) >>> 0;
+}
+
+function dosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getUTCHours() << 11) | (date.getUTCMinutes() << 5) | Math.floor(date.getUTCSeconds() / 2),
+    date: ((Math.max(date.getUTCFullYear(), 1980) - 1980) << 9) | ((date.getUTCMonth() + 1) << 5) | date.getUTCDate()
+  };
+}
+
+function localHeader(name: Uint8Array, time: number, date: number): Uint8Array {
+  const header = new Uint8Array(30 + name.length);
+  const view = new DataView(header.buffer);
+  view.setUint32(0, LOCAL_HEADER_SIGNATURE, true);
+  view.setUint16(4, VERSION, true);
+  view.setUint16(6, FLAGS, true);
+  view.setUint16(8, 0, true); // Stored
+  view.setUint16(10, time, true);
+  view.setUint16(12, date, true);
+  // CRC and sizes (14-25) stay zero; they follow in the data descriptor
+  view.setUint16(26, name.length, true);
+  header.set(name, 30);
+  return header;
+}
+
+function dataDescriptor(crc: number, size: number): Uint8Array {
+  const descriptor = new Uint8Array(16);
+  const view = new DataView(descriptor.buffer);
+  view.setUint32(0, DATA_DESCRIPTOR_SIGNATURE, true);
+  view.setUint32(4, crc, true);
+  view.setUint32(8, size, true);
+  view.setUint32(12, size, true);
+  return descriptor;
+}
+
+function centralHeader(record: CentralRecord): Uint8Array {
+  const header = new Uint8Array(46 + record.name.length);
+  const view = new DataView(header.buffer);
+  view.setUint32(0, CENTRAL_HEADER_SIGNATURE, true);
+  view.setUint16(4, VERSION, true);
+  view.setUint16(6, VERSION, true);
+  view.setUint16(8, FLAGS, true);
+  view.setUint16(10, 0, true);
+  view.setUint16(12, record.time, true);
+  view.setUint16(14, record.date, true);
+  view.setUint32(16, record.crc, true);
+  view.setUint32(20, record.size, true);
+  view.setUint32(24, record.size, true);
+  view.setUint16(28, record.name.length, true);
+  view.setUint32(42, record.offset, true);
+  header.set(record.name, 46);
+  return header;
+}
+
+function endOfCentralDirectory(entries: number, size: number, offset: number): Uint8Array {
+  const record = new Uint8Array(22);
+  const view = new DataView(record.buffer);
+  view.setUint32(0, END_OF_CENTRAL_DIRECTORY_SIGNATURE, true);
+  view.setUint16(8, entries, true);
+  view.setUint16(10, entries, true);
+  view.setUint32(12, size, true);
+  view.setUint32(16, offset, true);
+  return record;
+}
+
+async function* zipChunks(entries: AsyncIterable<ZipEntry>): AsyncGenerator<Uint8Array> {
+  const encoder = new TextEncoder();
+  const central: CentralRecord[] = [];
+  let offset = 0;
+
+  for await (const entry of entries) {
+    const name = encoder.encode(entry.name);
+    const { time, date } = dosDateTime(entry.modified ?? new Date());
+    const header = localHeader(name, time, date);
+    const start = offset;
+    yield header;
+    offset += header.length;
+
+    let crc = 0;
+    let size = 0;
+    let error: string | undefined;
+    if (entry.data instanceof Uint8Array) {
+      crc = crc32(crc, entry.data);
+      size = entry.data.length;
+      yield entry.data;
+    } else {
+      const reader = entry.data.getReader();
+      let finished = false;
+      try {
+        for (;;) {
+          const { done, value } = await reader.read();
+          if (done) break;
+          crc = crc32(crc, value);
+          size += value.length;
+          yield value;
+        }
+        finished = true;
+      } catch (readError) {
+        error = readError instanceof Error ? readError.message : 'Stream failed';
+      } finally {
+        // Also runs when the client disconnects mid-entry
+        if (!finished) await reader.cancel().catch(() => {});
+      }
+    }
+    offset += size;
+
+    const descriptor = dataDescriptor(crc, size);
+    yield descriptor;
+    offset += descriptor.length;
+
+    // A failed entry's bytes are already out; leaving it out of the central
+    // directory makes unzippers skip it
+    if (!error) central.push({ name, crc, size, offset: start, time, date });
+    entry.onComplete?.(error);
+  }
+
+  let centralSize = 0;
+  for (const record of central) {
+    const header = centralHeader(record);
+    centralSize += header.length;
+    yield header;
+  }
+  yield endOfCentralDirectory(central.length, centralSize, offset);
+}
+
+/**
+ * ZIP archive of the entries as a byte stream; entries are pulled (and their
+ * sources fetched) only as fast as the client reads
+ */
+export function createZipStream(entries: AsyncIterable<ZipEntry>): ReadableStream<Uint8Array> {
+  const chunks = zipChunks(entries);
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { done, value } = await chunks.next();
+        if (done) controller.close();
+        else controller.enqueue(value);
+      } catch (error) {
+        controller.error(error);
+      }
+    },
+    async cancel() {
+      await chunks.return(undefined);
+    }
+  });
+}
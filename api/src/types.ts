@@ -4,7 +4,57 @@ export interface SearchRequest {
   count?: number;
   start?: number;
   engine?: string;
-  tbs?: string; // Time-based search parameter (e.g., "qdr:w" for past week)
+  tbs?: string; // Custom TBS tokens (e.g. "qdr:w"), validated and merged over the generated defaults
+  engines?: string[]; // Restrict aggregated search to these engines (default: all configured)
+  safeSearch?: SafeSearchLevel;
+  minWidth?: number; // Drop results whose known dimensions are below this
+  minHeight?: number;
+  strictOrientation?: boolean; // Drop results whose known dimensions don't match orientation
+  targetResolution?: { width: number; height: number }; // e.g. 5120x1440; implies its aspect ratio
+  aspectRatio?: number; // Target width / height (e.g. 32/9)
+  aspectTolerance?: number; // Allowed relative deviation from aspectRatio (default 0.1)
+  color?: ImageColor; // Dominant color (TBS engines) or color query term (Brave)
+  sites?: string[]; // Only results from these sites (site: operators)
+  excludeSites?: string[]; // Sites the engines are asked to leave out (-site: operators)
+  excludeTerms?: string[]; // Words or phrases the results must not match (-term operators)
+  license?: Exclude<LicenseFilter, 'any'>; // Usage-rights filter; drops results without a known license
+  since?: RecencyFilter; // Only images first seen within this window (cached for a much shorter time)
+  blockedDomains?: string[]; // Drop results from these domains and their subdomains
+}
+
+export type SafeSearchLevel = 'off' | 'moderate' | 'strict';
+
+// Google usage-rights filter: Creative Commons, or commercial & other licenses
+export type LicenseFilter = 'creative-commons' | 'commercial' | 'any';
+
+export type RecencyFilter = 'day' | 'week' | 'month' | 'year';
+
+// Interpretation of the operators typed into the query box (see parseSearchQuery)
+export interface ParsedSearchQuery {
+  text: string; // Free text and "phrases" sent to the engines
+  operators: string[]; // Recognized operator tokens as typed
+  phrases: string[];
+  sites: string[];
+  excludeSites: string[]; // -site: operators, sent to the engines and applied like blocked domains
+  excludeTerms: string[];
+  color?: ImageColor;
+  targetResolution?: { width: number; height: number };
+  aspectRatio?: number;
+  engines: string[];
+}
+
+// Named colors map to Google's specific-color filter; gray and mono are grayscale and black & white
+export type ImageColor =
+  | 'black' | 'blue' | 'brown' | 'green' | 'orange' | 'pink' | 'purple'
+  | 'red' | 'teal' | 'white' | 'yellow' | 'gray' | 'mono';
+
+export interface UserPreferences {
+  defaultOrientation?: 'landscape' | 'portrait';
+  defaultPageSize: number;
+  preferredEngines: string[]; // Empty means every configured engine
+  minResolution?: { width: number; height: number };
+  blockedDomains: string[];
+  safeSearch: SafeSearchLevel;
 }
 
 export interface GoogleSearchResponseItemImage {
@@ -108,6 +158,20 @@ export interface IntermediarySearchResult {
   mimeType?: string;
   fileFormat?: string;
   sourceEngine?: string; // Name of the engine that found this result (e.g., 'google', 'brave')
+  sourceEngines?: EngineRank[]; // Every engine that returned this image, best rank first
+  score?: number; // Ranking score within an aggregation (higher first)
+  license?: string; // e.g. "Creative Commons" (usage-rights filter) or "Unsplash License"
+  filterLicense?: string; // Label of the usage-rights filter the engine searched with; kept per aggregation
+  author?: string;
+  authorUrl?: string;
+  proxiedUrl?: string; // Same-origin copy of url via /api/images/proxy
+  proxiedThumbnailUrl?: string;
+  downloadUrl?: string; // Signed /api/images/download link with a descriptive filename
+}
+
+export interface EngineRank {
+  engine: string;
+  rank?: number; // 1-based position in that engine's results (unknown for older aggregations)
 }
 
 export interface IntermediaryPaginationInfo {
@@ -130,10 +194,64 @@ export interface IntermediarySearchResponse {
     searchTime?: number;
     searchEngine?: string;
     timestamp?: string;
+    enginesUsed?: string[];
+    enginesSkipped?: EngineSkip[];
+    engineStatus?: EngineFetchStatus[];
+    warnings?: string[];
+    expiresAt?: string; // When the stored aggregation is refetched
+    parsedQuery?: ParsedSearchQuery;
   };
   error?: string;
 }
 
+export interface Favorite {
+  id: string; // sha1 of user id + image url
+  userId: string;
+  query?: string; // Search query the image was found with
+  result: IntermediarySearchResult; // Full snapshot, independent of the aggregated results cache
+  createdAt: string;
+}
+
+export interface Collection {
+  id: string;
+  userId: string;
+  name: string;
+  coverItemId?: string; // Explicit cover; falls back to the first item when unset
+  coverImageUrl?: string;
+  itemCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CollectionItem {
+  id: string; // sha1 of collection id + image url
+  collectionId: string;
+  position: number; // 0-based order within the collection
+  result: IntermediarySearchResult;
+  addedAt: string;
+}
+
+export interface DeviceProfile {
+  id: string;
+  name: string; // e.g. "Desk" or "Pixel 8"
+  width: number;
+  height: number;
+  orientation: 'landscape' | 'portrait';
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SearchHistoryEntry {
+  id: string;
+  query: string;
+  orientation?: string;
+  tbs?: string;
+  engine?: string;
+  resultCount: number;
+  cacheHit: boolean;
+  timestamp: string;
+}
+
 export interface ApiResponse<T> {
   success: boolean;
   data?: T;
@@ -167,6 +285,8 @@ export interface Bindings {
   GOOGLE_SEARCH_ENGINE_ID: string;
   BRAVE_SEARCH_API_KEY?: string;
   SERPER_API_KEY?: string;
+  // HMAC key for signed proxy/download links
+  URL_SIGNING_SECRET?: string;
   // Other env vars
   LOG_REQUESTS?: string;
   AUTH0_DOMAIN: string;
@@ -174,11 +294,48 @@ export interface Bindings {
   // Add other bindings as needed
 }
 
+// Receives one call per outbound (billable) request made by a search engine
+export interface EngineCallRecorder {
+  recordCall(engine: string): void;
+}
+
+export interface EngineUsageDay {
+  day: string; // YYYY-MM-DD (UTC)
+  engine: string;
+  requests: number;
+  lastUsed?: string;
+}
+
+export interface EngineBudgetStatus {
+  engine: string;
+  remaining: number | null; // Calls left before a budget is hit (null = no budget configured)
+  limitedBy?: 'daily' | 'monthly';
+  usedToday?: number;
+  usedThisMonth?: number;
+  dailyLimit?: number | null;
+  monthlyLimit?: number | null;
+}
+
+export interface EngineSkip {
+  engine: string;
+  reason: 'daily_budget_exhausted' | 'monthly_budget_exhausted';
+}
+
+// Outcome of one engine during an aggregated fan-out
+export interface EngineFetchStatus {
+  engine: string;
+  status: 'ok' | 'partial' | 'error' | 'timeout';
+  durationMs: number;
+  resultCount: number;
+  error?: string;
+}
+
 // Base SearchEngine interface
 export interface SearchEngine {
   readonly name: string;
   readonly supportsTbs?: boolean;
-  search(request: SearchRequest): Promise<ApiResponse<IntermediarySearchResponse>>;
+  // signal aborts the outbound call, e.g. when the caller's timeout passes
+  search(request: SearchRequest, signal?: AbortSignal): Promise<ApiResponse<IntermediarySearchResponse>>;
   healthCheck?(): Promise<{ healthy: boolean; message: string }>;
 }
 
@@ -0,0 +1,126 @@
+import { describe, expect, it } from 'vitest';
+import {
+  parseGifHeader,
+  parseImageHeader,
+  parseJpegHeader,
+  parsePngHeader,
+  parseWebpHeader,
+  probeImage
+} from '../src/services/imageProbe';
+
+const ascii = (text: string) => Array.from(text, char => char.charCodeAt(0));
+const bytes = (...parts: Array<number | number[]>) => new Uint8Array(parts.flat());
+
+// 1920x1080 PNG: signature, IHDR length, "IHDR", width, height, depth/colour/...
+const PNG = bytes(
+  [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a],
+  [0x00, 0x00, 0x00, 0x0d], ascii('IHDR'),
+  [0x00, 0x00, 0x07, 0x80], [0x00, 0x00, 0x04, 0x38],
+  [0x08, 0x06, 0x00, 0x00, 0x00]
+);
+
+// 640x480 GIF: signature, little-endian logical screen size
+const GIF = bytes(ascii('GIF89a'), [0x80, 0x02], [0xe0, 0x01], [0xf7, 0x00, 0x00]);
+
+// 3840x2160 baseline JPEG: SOI, APP0 (JFIF), APP1 (Exif), then SOF0
+const JPEG = bytes(
+  [0xff, 0xd8],
+  [0xff, 0xe0, 0x00, 0x10], ascii('JFIF'), [0x00, 0x01, 0x01, 0x00, 0x00, 0x01, 0x00, 0x01, 0x00, 0x00],
+  [0xff, 0xe1, 0x00, 0x08], ascii('Exif'), [0x00, 0x00],
+  [0xff, 0xc0, 0x00, 0x11, 0x08], [0x08, 0x70], [0x0f, 0x00], [0x03, 0x01, 0x22, 0x00]
+);
+
+// 800x600 lossy WebP: RIFF header, "VP8 " chunk, frame tag, start code, sizes
+const WEBP_VP8 = bytes(
+  ascii('RIFF'), [0x24, 0x00, 0x00, 0x00], ascii('WEBP'),
+  ascii('VP8 '), [0x18, 0x00, 0x00, 0x00],
+  [0x30, 0x01, 0x00], [0x9d, 0x01, 0x2a], [0x20, 0x03], [0x58, 0x02]
+);
+
+// 400x300 lossless WebP: signature 0x2f, then 14-bit width - 1 and height - 1
+const WEBP_VP8L = bytes(
+  ascii('RIFF'), [0x1a, 0x00, 0x00, 0x00], ascii('WEBP'),
+  ascii('VP8L'), [0x0d, 0x00, 0x00, 0x00],
+  [0x2f, 0x8f, 0xc1, 0x4a, 0x00], [0x00, 0x00, 0x00, 0x00, 0x00]
+);
+
+// 5120x1440 extended WebP: flags, then 24-bit canvas width - 1 and height - 1
+const WEBP_VP8X = bytes(
+  ascii('RIFF'), [0x4a, 0x00, 0x00, 0x00], ascii('WEBP'),
+  ascii('VP8X'), [0x0a, 0x00, 0x00, 0x00],
+  [0x10, 0x00, 0x00, 0x00], [0xff, 0x13, 0x00], [0x9f, 0x05, 0x00]
+);
+
+// [name, bytes, expected header, bytes needed to parse it]
+const FIXTURES: Array<[string, Uint8Array, { width: number; height: number; mimeType: string; fileFormat: string }, number]> = [
+  ['PNG', PNG, { width: 1920, height: 1080, mimeType: 'image/png', fileFormat: 'png' }, 24],
+  ['GIF', GIF, { width: 640, height: 480, mimeType: 'image/gif', fileFormat: 'gif' }, 10],
+  ['JPEG with APPn segments', JPEG, { width: 3840, height: 2160, mimeType: 'image/jpeg', fileFormat: 'jpg' }, 39],
+  ['WebP VP8', WEBP_VP8, { width: 800, height: 600, mimeType: 'image/webp', fileFormat: 'webp' }, 30],
+  ['WebP VP8L', WEBP_VP8L, { width: 400, height: 300, mimeType: 'image/webp', fileFormat: 'webp' }, 30],
+  ['WebP VP8X', WEBP_VP8X, { width: 5120, height: 1440, mimeType: 'image/webp', fileFormat: 'webp' }, 30]
+];
+
+describe('format parsers', () => {
+  it('parse their own format', () => {
+    expect(parsePngHeader(PNG)).toEqual(FIXTURES[0][2]);
+    expect(parseGifHeader(GIF)).toEqual(FIXTURES[1][2]);
+    expect(parseJpegHeader(JPEG)).toEqual(FIXTURES[2][2]);
+    expect(parseWebpHeader(WEBP_VP8)).toEqual(FIXTURES[3][2]);
+    expect(parseWebpHeader(WEBP_VP8L)).toEqual(FIXTURES[4][2]);
+    expect(parseWebpHeader(WEBP_VP8X)).toEqual(FIXTURES[5][2]);
+  });
+
+  it('reject other formats', () => {
+    expect(parsePngHeader(GIF)).toBeNull();
+    expect(parseGifHeader(JPEG)).toBeNull();
+    expect(parseJpegHeader(PNG)).toBeNull();
+    expect(parseWebpHeader(PNG)).toBeNull();
+  });
+});
+
+describe('parseImageHeader', () => {
+  it.each(FIXTURES)('detects %s', (_, fixture, expected) => {
+    expect(parseImageHeader(fixture)).toEqual(expected);
+  });
+
+  it.each(FIXTURES)('parses %s from just its header bytes', (_, fixture, expected, needed) => {
+    expect(parseImageHeader(fixture.subarray(0, needed))).toEqual(expected);
+  });
+
+  it.each(FIXTURES)('returns null for a truncated %s', (_, fixture, _expected, needed) => {
+    expect(parseImageHeader(fixture.subarray(0, needed - 1))).toBeNull();
+  });
+
+  it('returns null for a JPEG cut off before its SOF marker', () => {
+    expect(parseImageHeader(JPEG.subarray(0, 30))).toBeNull();
+  });
+
+  it('returns null for zero dimensions', () => {
+    const empty = GIF.slice();
+    empty.fill(0, 6, 10);
+    expect(parseImageHeader(empty)).toBeNull();
+  });
+
+  it('returns null for unknown formats', () => {
+    expect(parseImageHeader(bytes(ascii('<svg xmlns="http://www.w3.org/2000/svg">')))).toBeNull();
+  });
+});
+
+describe('probeImage', () => {
+  it('reads dimensions and the total size from a Range response', async () => {
+    const fetchImpl = async () => new Response(PNG, {
+      status: 206,
+      headers: { 'Content-Type': 'image/png', 'Content-Range': 'bytes 0-32/123456' }
+    });
+    expect(await probeImage('https://images.example.com/probe.png', fetchImpl as typeof fetch)).toEqual({
+      ...FIXTURES[0][2],
+      fileSize: 123456
+    });
+  });
+
+  it('returns null when the header cannot be parsed', async () => {
+    const fetchImpl = async () => new Response(PNG.subarray(0, 16), { headers: { 'Content-Type': 'image/png' } });
+    expect(await probeImage('https://images.example.com/short.png', fetchImpl as typeof fetch)).toBeNull();
+  });
+});
@@ -1,6 +1,16 @@
 import { getAccessToken } from './auth.js';
 import { API_BASE_URL } from './env.js';
-import type { SearchResponse, ApiError, SearchParams } from './types.js';
+import type {
+  SearchResponse,
+  SearchResult,
+  ApiError,
+  SearchParams,
+  FavoritesResponse,
+  FavoriteResponse,
+  DeviceProfile,
+  DevicesResponse,
+  DeviceResponse,
+} from './types.js';
 
 class ApiService {
   private baseUrl: string;
@@ -63,6 +73,46 @@ class ApiService {
       searchParams.append('engine', params.engine);
     }
 
+    if (params.minWidth) {
+      searchParams.append('minWidth', params.minWidth.toString());
+    }
+
+    if (params.minHeight) {
+      searchParams.append('minHeight', params.minHeight.toString());
+    }
+
+    if (params.strictOrientation) {
+      searchParams.append('strictOrientation', 'true');
+    }
+
+    if (params.resolution) {
+      searchParams.append('resolution', params.resolution);
+    }
+
+    if (params.ratio) {
+      searchParams.append('ratio', params.ratio);
+    }
+
+    if (params.ratioTolerance !== undefined) {
+      searchParams.append('ratioTolerance', params.ratioTolerance.toString());
+    }
+
+    if (params.color) {
+      searchParams.append('color', params.color);
+    }
+
+    if (params.license && params.license !== 'any') {
+      searchParams.append('license', params.license);
+    }
+
+    if (params.since) {
+      searchParams.append('since', params.since);
+    }
+
+    if (params.device) {
+      searchParams.append('device', params.device);
+    }
+
     const endpoint = `/api/search/images?${searchParams.toString()}`;
     return this.makeRequest<SearchResponse>(endpoint);
   }
@@ -144,6 +194,62 @@ class ApiService {
       { method: 'GET' } // Suggestions are fetched via GET
     );
   }
+
+  // Favorites are stored as full result snapshots, so they survive cache clears
+  async getFavorites(params: { count?: number; start?: number } = {}): Promise<FavoritesResponse> {
+    const searchParams = new URLSearchParams();
+    if (params.count !== undefined) {
+      searchParams.append('count', params.count.toString());
+    }
+    if (params.start !== undefined) {
+      searchParams.append('start', params.start.toString());
+    }
+
+    const endpoint = `/api/favorites${searchParams.toString() ? '?' + searchParams.toString() : ''}`;
+    return this.makeRequest<FavoritesResponse>(endpoint);
+  }
+
+  async addFavorite(result: SearchResult, query?: string): Promise<FavoriteResponse> {
+    return this.makeRequest<FavoriteResponse>('/api/favorites', {
+      method: 'POST',
+      body: JSON.stringify({ result, query }),
+    });
+  }
+
+  async removeFavorite(id: string): Promise<{ success: boolean; message?: string; error?: string }> {
+    return this.makeRequest<{ success: boolean; message?: string; error?: string }>(
+      `/api/favorites/${encodeURIComponent(id)}`,
+      { method: 'DELETE' }
+    );
+  }
+
+  async getDevices(): Promise<DevicesResponse> {
+    return this.makeRequest<DevicesResponse>('/api/devices');
+  }
+
+  async createDevice(device: { name: string; resolution: string; orientation?: DeviceProfile['orientation'] }): Promise<DeviceResponse> {
+    return this.makeRequest<DeviceResponse>('/api/devices', {
+      method: 'POST',
+      body: JSON.stringify(device),
+    });
+  }
+
+  async updateDevice(
+    id: string,
+    changes: { name?: string; resolution?: string; orientation?: DeviceProfile['orientation'] }
+  ): Promise<DeviceResponse> {
+    return this.makeRequest<DeviceResponse>(`/api/devices/${encodeURIComponent(id)}`, {
+      method: 'PATCH',
+      body: JSON.stringify(changes),
+    });
+  }
+
+  async deleteDevice(id: string): Promise<{ success: boolean; message?: string; error?: string }> {
+    return this.makeRequest<{ success: boolean; message?: string; error?: string }>(
+      `/api/devices/${encodeURIComponent(id)}`,
+      { method: 'DELETE' }
+    );
+  }
 }
 
 export const apiService = new ApiService(API_BASE_URL); 
\ No newline at end of file
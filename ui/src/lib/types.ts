@@ -13,6 +13,18 @@ export interface SearchResult {
   mimeType: string;
   fileFormat: string;
   source_engine?: string;
+  sourceEngines?: EngineRank[];
+  license?: string;
+  author?: string;
+  authorUrl?: string;
+  proxiedUrl?: string;
+  proxiedThumbnailUrl?: string;
+  downloadUrl?: string;
+}
+
+export interface EngineRank {
+  engine: string;
+  rank?: number;
 }
 
 export interface PaginationInfo {
@@ -35,9 +47,24 @@ export interface SearchData {
     searchTime: number;
     searchEngine: string;
     timestamp: string;
+    parsedQuery?: ParsedSearchQuery;
   };
 }
 
+// How the API interpreted operators typed into the query box
+export interface ParsedSearchQuery {
+  text: string;
+  operators: string[];
+  phrases: string[];
+  sites: string[];
+  excludeSites: string[];
+  excludeTerms: string[];
+  color?: string;
+  targetResolution?: { width: number; height: number };
+  aspectRatio?: number;
+  engines: string[];
+}
+
 export interface SearchResponse {
   success: boolean;
   data: SearchData;
@@ -48,6 +75,47 @@ export interface SearchResponse {
   cacheKey?: string;
 }
 
+export interface Favorite {
+  id: string;
+  userId: string;
+  query?: string;
+  result: SearchResult;
+  createdAt: string;
+}
+
+export interface FavoritesResponse {
+  success: boolean;
+  data: {
+    favorites: Favorite[];
+    pagination: PaginationInfo;
+  };
+}
+
+export interface FavoriteResponse {
+  success: boolean;
+  data: Favorite;
+}
+
+export interface DeviceProfile {
+  id: string;
+  name: string;
+  width: number;
+  height: number;
+  orientation: 'landscape' | 'portrait';
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface DevicesResponse {
+  success: boolean;
+  data: DeviceProfile[];
+}
+
+export interface DeviceResponse {
+  success: boolean;
+  data: DeviceProfile;
+}
+
 // Legacy types for backward compatibility (deprecated)
 export interface SearchImage {
   kind: string;
@@ -114,4 +182,14 @@ export interface SearchParams {
   count?: number;
   start?: number;
   engine?: string;
+  minWidth?: number;
+  minHeight?: number;
+  strictOrientation?: boolean;
+  resolution?: string; // e.g. "5120x1440"
+  ratio?: string; // e.g. "32:9"
+  ratioTolerance?: number;
+  color?: string; // e.g. "blue", "gray" (grayscale), "mono" (black and white)
+  license?: 'creative-commons' | 'commercial' | 'any';
+  since?: 'day' | 'week' | 'month' | 'year';
+  device?: string; // Device profile id
 } 
\ No newline at end of file